@@ -6,12 +6,22 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import AudioToStrudel from "@/pages/audio-to-strudel";
 import BatchProcessing from "@/pages/batch-processing";
+import Projects from "@/pages/projects";
+import AuthPage from "@/pages/auth-page";
+import SharedPattern from "@/pages/shared-pattern";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={AudioToStrudel} />
+      <ProtectedRoute path="/analyses/:id" component={AudioToStrudel} />
       <Route path="/batch" component={BatchProcessing} />
+      <ProtectedRoute path="/projects" component={Projects} />
+      <Route path="/s/:slug" component={SharedPattern} />
+      <Route path="/login">{() => <AuthPage mode="login" />}</Route>
+      <Route path="/register">{() => <AuthPage mode="register" />}</Route>
       <Route component={NotFound} />
     </Switch>
   );
@@ -20,10 +30,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
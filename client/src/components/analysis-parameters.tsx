@@ -2,25 +2,25 @@ import { useState } from "react";
 import { Settings, Music, Clock, Hash, ChevronDown, ChevronUp, Info } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Badge } from "@/components/ui/badge";
-
-export interface AnalysisParams {
-  autoDetectTempo: boolean;
-  targetTempo: number;
-  autoDetectKey: boolean;
-  targetKey: string;
-  timeSignature: string;
-  minNoteDuration: number;
-  pitchSensitivity: number;
-  quantizeNotes: boolean;
-  quantizeValue: string;
-}
+import { CodeOptions } from "@/components/code-options";
+import { canonicalKey, KEY_MODES, keyNames, MAX_MELODY_NOTES, MAX_POLYPHONIC_NOTES } from "@shared/analysis";
+import type { AnalysisParams } from "@shared/schema";
 
 interface AnalysisParametersProps {
   params: AnalysisParams;
@@ -28,26 +28,35 @@ interface AnalysisParametersProps {
   disabled?: boolean;
 }
 
-const MUSICAL_KEYS = [
-  "C", "C#/Db", "D", "D#/Eb", "E", "F", "F#/Gb", "G", "G#/Ab", "A", "A#/Bb", "B",
-  "Cm", "C#m/Dbm", "Dm", "D#m/Ebm", "Em", "Fm", "F#m/Gbm", "Gm", "G#m/Abm", "Am", "A#m/Bbm", "Bm"
+// Spelled the way analysis names detected keys, grouped by mode.
+const MUSICAL_KEYS = KEY_MODES.map((mode) => ({
+  mode: mode.charAt(0).toUpperCase() + mode.slice(1),
+  keys: keyNames([mode]),
+}));
+
+const KEY_PROFILES: { value: AnalysisParams["keyProfile"]; label: string }[] = [
+  { value: "krumhansl", label: "Krumhansl-Kessler" },
+  { value: "temperley", label: "Temperley" },
+  { value: "albrecht", label: "Albrecht-Shanahan" },
 ];
 
 const TIME_SIGNATURES = ["4/4", "3/4", "6/8", "2/4", "5/4", "7/8"];
 
 const QUANTIZE_VALUES = ["1/4", "1/8", "1/16", "1/32", "none"];
 
-export const defaultAnalysisParams: AnalysisParams = {
-  autoDetectTempo: true,
-  targetTempo: 120,
-  autoDetectKey: true,
-  targetKey: "C",
-  timeSignature: "4/4",
-  minNoteDuration: 50,
-  pitchSensitivity: 70,
-  quantizeNotes: true,
-  quantizeValue: "1/16",
-};
+const CHANNEL_MODES: { value: AnalysisParams["channelMode"]; label: string }[] = [
+  { value: "mid", label: "Mid (L+R)" },
+  { value: "side", label: "Side (L-R)" },
+  { value: "left", label: "Left" },
+  { value: "right", label: "Right" },
+  { value: "per-channel", label: "Each channel" },
+];
+
+const PITCH_METHODS: { value: AnalysisParams["pitchMethod"]; label: string }[] = [
+  { value: "pyin", label: "pYIN" },
+  { value: "yin", label: "YIN" },
+  { value: "autocorrelation", label: "Autocorrelation" },
+];
 
 export function AnalysisParameters({ params, onChange, disabled }: AnalysisParametersProps) {
   const [isOpen, setIsOpen] = useState(false);
@@ -81,9 +90,14 @@ export function AnalysisParameters({ params, onChange, disabled }: AnalysisParam
                   {params.targetTempo} BPM
                 </Badge>
               )}
+              {!params.autoDetectTimeSignature && (
+                <Badge variant="secondary" className="text-xs">
+                  {params.timeSignature}
+                </Badge>
+              )}
               {!params.autoDetectKey && (
                 <Badge variant="secondary" className="text-xs">
-                  {params.targetKey}
+                  {canonicalKey(params.targetKey)}
                 </Badge>
               )}
               {isOpen ? (
@@ -151,6 +165,30 @@ export function AnalysisParameters({ params, onChange, disabled }: AnalysisParam
 
                 <div className="space-y-3 pl-6">
                   <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="auto-time-sig" className="text-sm cursor-pointer">
+                        Auto-detect meter
+                      </Label>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p className="max-w-xs">Find the time signature and where bars start from the accent pattern of the beats</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </div>
+                    <Switch
+                      id="auto-time-sig"
+                      checked={params.autoDetectTimeSignature}
+                      onCheckedChange={(checked) => updateParam("autoDetectTimeSignature", checked)}
+                      disabled={disabled}
+                      data-testid="switch-auto-time-signature"
+                    />
+                  </div>
+
+                  {!params.autoDetectTimeSignature && (
+                  <div className="flex items-center justify-between animate-in slide-in-from-top-2 duration-200">
                     <Label htmlFor="time-sig" className="text-sm">Time Signature</Label>
                     <Select
                       value={params.timeSignature}
@@ -173,6 +211,7 @@ export function AnalysisParameters({ params, onChange, disabled }: AnalysisParam
                       </SelectContent>
                     </Select>
                   </div>
+                  )}
                 </div>
               </div>
 
@@ -212,7 +251,7 @@ export function AnalysisParameters({ params, onChange, disabled }: AnalysisParam
                         Target Key
                       </Label>
                       <Select
-                        value={params.targetKey}
+                        value={canonicalKey(params.targetKey)}
                         onValueChange={(value) => updateParam("targetKey", value)}
                         disabled={disabled}
                       >
@@ -224,15 +263,73 @@ export function AnalysisParameters({ params, onChange, disabled }: AnalysisParam
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {MUSICAL_KEYS.map((key) => (
-                            <SelectItem key={key} value={key}>
-                              {key}
-                            </SelectItem>
+                          {MUSICAL_KEYS.map(({ mode, keys }) => (
+                            <SelectGroup key={mode}>
+                              <SelectLabel>{mode}</SelectLabel>
+                              {keys.map((key) => (
+                                <SelectItem key={key} value={key}>
+                                  {key}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
                           ))}
                         </SelectContent>
                       </Select>
                     </div>
                   )}
+
+                  {params.autoDetectKey && (
+                    <div className="space-y-3 animate-in slide-in-from-top-2 duration-200">
+                      <div className="space-y-2">
+                        <Label htmlFor="key-profile" className="text-sm text-muted-foreground">
+                          Key Profile
+                        </Label>
+                        <Select
+                          value={params.keyProfile}
+                          onValueChange={(value) => updateParam("keyProfile", value as AnalysisParams["keyProfile"])}
+                          disabled={disabled}
+                        >
+                          <SelectTrigger
+                            id="key-profile"
+                            className="w-full"
+                            data-testid="select-key-profile"
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {KEY_PROFILES.map((profile) => (
+                              <SelectItem key={profile.value} value={profile.value}>
+                                {profile.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor="detect-modes" className="text-sm cursor-pointer">
+                            Detect modes
+                          </Label>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p className="max-w-xs">Also consider Dorian, Phrygian, Lydian, Mixolydian and Locrian</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </div>
+                        <Switch
+                          id="detect-modes"
+                          checked={params.detectModes}
+                          onCheckedChange={(checked) => updateParam("detectModes", checked)}
+                          disabled={disabled}
+                          data-testid="switch-detect-modes"
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -301,6 +398,189 @@ export function AnalysisParameters({ params, onChange, disabled }: AnalysisParam
                 </div>
               </div>
 
+              <div className="pl-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="max-notes" className="text-sm">
+                      Note limit
+                    </Label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">Most notes kept in the melody and in the bass line; notes after the limit are dropped</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                  <Input
+                    id="max-notes"
+                    type="number"
+                    min={1}
+                    className="w-40 h-8"
+                    placeholder={`${params.polyphonic ? MAX_POLYPHONIC_NOTES : MAX_MELODY_NOTES} (default)`}
+                    value={params.maxNotes ?? ""}
+                    onChange={(event) => {
+                      const value = parseInt(event.target.value, 10);
+                      updateParam("maxNotes", value > 0 ? value : undefined);
+                    }}
+                    disabled={disabled}
+                    data-testid="input-max-notes"
+                  />
+                </div>
+              </div>
+
+              <div className="pl-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="channel-mode" className="text-sm">
+                      Channel
+                    </Label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">Which channel of a stereo file to analyze; side isolates hard-panned parts, and each channel adds the other channel's melody and bass as layers of their own</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                  <Select
+                    value={params.channelMode}
+                    onValueChange={(value) => updateParam("channelMode", value as AnalysisParams["channelMode"])}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger
+                      id="channel-mode"
+                      className="w-40 h-8"
+                      data-testid="select-channel-mode"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHANNEL_MODES.map((mode) => (
+                        <SelectItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="pl-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="pitch-method" className="text-sm">
+                      Pitch tracker
+                    </Label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">pYIN smooths pitch over time and gates notes on voicing confidence; autocorrelation is the original method</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                  <Select
+                    value={params.pitchMethod}
+                    onValueChange={(value) => updateParam("pitchMethod", value as AnalysisParams["pitchMethod"])}
+                    disabled={disabled || params.polyphonic}
+                  >
+                    <SelectTrigger 
+                      id="pitch-method" 
+                      className="w-40 h-8"
+                      data-testid="select-pitch-method"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PITCH_METHODS.map((method) => (
+                        <SelectItem key={method.value} value={method.value}>
+                          {method.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="pl-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="polyphonic" className="text-sm cursor-pointer">
+                      Polyphonic
+                    </Label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">Estimate several pitches at once for piano or guitar recordings; simultaneous notes are stacked as [c4,e4,g4]</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                  <Switch
+                    id="polyphonic"
+                    checked={params.polyphonic}
+                    onCheckedChange={(checked) => updateParam("polyphonic", checked)}
+                    disabled={disabled}
+                    data-testid="switch-polyphonic"
+                  />
+                </div>
+              </div>
+
+              <div className="pl-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="extract-bass" className="text-sm cursor-pointer">
+                      Extract bass line
+                    </Label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">Track the 30–250 Hz register separately and write it as its own bass layer</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                  <Switch
+                    id="extract-bass"
+                    checked={params.extractBass}
+                    onCheckedChange={(checked) => updateParam("extractBass", checked)}
+                    disabled={disabled}
+                    data-testid="switch-extract-bass"
+                  />
+                </div>
+              </div>
+
+              <div className="pl-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="detect-drums" className="text-sm cursor-pointer">
+                      Detect drums
+                    </Label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">Separate the percussive part and transcribe kick, snare and hi-hat hits into an s("bd sd hh") layer</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                  <Switch
+                    id="detect-drums"
+                    checked={params.detectDrums}
+                    onCheckedChange={(checked) => updateParam("detectDrums", checked)}
+                    disabled={disabled}
+                    data-testid="switch-detect-drums"
+                  />
+                </div>
+              </div>
+
               <div className="pl-6 space-y-3">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
@@ -347,6 +627,33 @@ export function AnalysisParameters({ params, onChange, disabled }: AnalysisParam
                     />
                   </div>
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="swing-quantize" className="text-sm cursor-pointer">
+                      Keep swing
+                    </Label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">Detect the shuffle feel, snap off-beats to the swung grid and play it back with .swingBy() instead of straightening it</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                  <Switch
+                    id="swing-quantize"
+                    checked={params.swingQuantize}
+                    onCheckedChange={(checked) => updateParam("swingQuantize", checked)}
+                    disabled={disabled}
+                    data-testid="switch-swing-quantize"
+                  />
+                </div>
+              </div>
+
+              <div className="pl-6">
+                <CodeOptions params={params} onChange={onChange} disabled={disabled} />
               </div>
             </div>
           </div>
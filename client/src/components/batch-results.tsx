@@ -29,6 +29,7 @@ export interface BatchAnalysisResult {
   chordChanges: number;
   detectedKey: string;
   estimatedTempo: number;
+  timeSignature: string;
   duration: number;
   waveformData: number[];
 }
@@ -39,6 +40,7 @@ export interface BatchResult {
   result?: BatchAnalysisResult;
   notes?: Note[];
   chords?: Chord[];
+  bass?: Note[];
   strudelCode?: {
     melody: string;
     chords: string;
@@ -82,7 +84,8 @@ export function BatchResults({ results, files, onExportAll }: BatchResultsProps)
     downloadMidiFile(
       result.notes,
       result.chords || [],
-      { tempo: result.result.estimatedTempo || 120 },
+      result.bass || [],
+      { tempo: result.result.estimatedTempo || 120, timeSignature: result.result.timeSignature },
       `${result.fileName.replace(/\.[^.]+$/, "")}.mid`
     );
     
@@ -123,7 +126,8 @@ export function BatchResults({ results, files, onExportAll }: BatchResultsProps)
         downloadMidiFile(
           result.notes,
           result.chords || [],
-          { tempo: result.result.estimatedTempo || 120 },
+          result.bass || [],
+          { tempo: result.result.estimatedTempo || 120, timeSignature: result.result.timeSignature },
           `${result.fileName.replace(/\.[^.]+$/, "")}.mid`
         );
         exported++;
@@ -0,0 +1,181 @@
+import { Info } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { AnalysisParams } from "@shared/schema";
+
+interface CodeOptionsProps {
+  params: AnalysisParams;
+  onChange: (params: AnalysisParams) => void;
+  disabled?: boolean;
+}
+
+const NOTATIONS: { value: AnalysisParams["notation"]; label: string }[] = [
+  { value: "notes", label: "Note names" },
+  { value: "degrees", label: "Scale degrees" },
+];
+
+const CHORD_NOTATIONS: { value: AnalysisParams["chordNotation"]; label: string }[] = [
+  { value: "notes", label: "Note stacks" },
+  { value: "symbols", label: "Chord symbols" },
+];
+
+const VOICING_DICTIONARIES: { value: AnalysisParams["voicingDictionary"]; label: string }[] = [
+  { value: "ireal", label: "iReal (default)" },
+  { value: "lefthand", label: "Left hand" },
+  { value: "triads", label: "Triads" },
+  { value: "guidetones", label: "Guide tones" },
+];
+
+// Settings that only change how the code is written. They are shown before
+// analysis with the other parameters and next to the code afterwards, where
+// changing them regenerates the code from the existing result.
+export function CodeOptions({ params, onChange, disabled }: CodeOptionsProps) {
+  const updateParam = <K extends keyof AnalysisParams>(key: K, value: AnalysisParams[K]) => {
+    onChange({ ...params, [key]: value });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="notation" className="text-sm">
+            Melody notation
+          </Label>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="max-w-xs">Scale degrees write the melody as n("0 2 4").scale("C4:major") in the detected key, so transposing or changing mode is a one-word edit</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Select
+          value={params.notation}
+          onValueChange={(value) => updateParam("notation", value as AnalysisParams["notation"])}
+          disabled={disabled}
+        >
+          <SelectTrigger
+            id="notation"
+            className="w-40 h-8"
+            data-testid="select-notation"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NOTATIONS.map((notation) => (
+              <SelectItem key={notation.value} value={notation.value}>
+                {notation.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="chord-notation" className="text-sm">
+            Chord notation
+          </Label>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="max-w-xs">Chord symbols write chord("&lt;Am F C G&gt;").voicing() and let Strudel pick the voicing; note stacks spell out every chord tone</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Select
+          value={params.chordNotation}
+          onValueChange={(value) => updateParam("chordNotation", value as AnalysisParams["chordNotation"])}
+          disabled={disabled}
+        >
+          <SelectTrigger
+            id="chord-notation"
+            className="w-40 h-8"
+            data-testid="select-chord-notation"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CHORD_NOTATIONS.map((notation) => (
+              <SelectItem key={notation.value} value={notation.value}>
+                {notation.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {params.chordNotation === "symbols" && (
+        <div className="flex items-center justify-between animate-in slide-in-from-top-2 duration-200">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="voicing-dictionary" className="text-sm text-muted-foreground">
+              Voicing dictionary
+            </Label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="max-w-xs">The smaller dictionaries only cover common chord types; Strudel skips chords a dictionary has no voicing for</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Select
+            value={params.voicingDictionary}
+            onValueChange={(value) => updateParam("voicingDictionary", value as AnalysisParams["voicingDictionary"])}
+            disabled={disabled}
+          >
+            <SelectTrigger
+              id="voicing-dictionary"
+              className="w-40 h-8"
+              data-testid="select-voicing-dictionary"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VOICING_DICTIONARIES.map((dictionary) => (
+                <SelectItem key={dictionary.value} value={dictionary.value}>
+                  {dictionary.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="chord-bass" className="text-sm cursor-pointer">
+            Root bass line
+          </Label>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="w-3.5 h-3.5 text-muted-foreground cursor-help" />
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="max-w-xs">Adds a layer playing each chord's root in octave 2</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Switch
+          id="chord-bass"
+          checked={params.chordBass}
+          onCheckedChange={(checked) => updateParam("chordBass", checked)}
+          disabled={disabled}
+          data-testid="switch-chord-bass"
+        />
+      </div>
+    </div>
+  );
+}
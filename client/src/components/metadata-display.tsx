@@ -1,14 +1,19 @@
-import { Music, Clock, Hash, Gauge, FileAudio, Waves, Key } from "lucide-react";
+import { Music, Clock, Hash, Gauge, FileAudio, Waves, Key, Ruler, Activity, AudioLines } from "lucide-react";
+import type { ReactNode } from "react";
 import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { AnalysisResult } from "@shared/schema";
 
 interface MetadataDisplayProps {
   result: AnalysisResult;
   fileSize?: number;
   fileName?: string;
+  // Picks one of result.keyCandidates in place of the detected key.
+  onKeyChange?: (key: string) => void;
+  keyChanging?: boolean;
 }
 
-export function MetadataDisplay({ result, fileSize, fileName }: MetadataDisplayProps) {
+export function MetadataDisplay({ result, fileSize, fileName, onKeyChange, keyChanging }: MetadataDisplayProps) {
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -25,7 +30,35 @@ export function MetadataDisplay({ result, fileSize, fileName }: MetadataDisplayP
     return `${(rate / 1000).toFixed(1)} kHz`;
   };
 
-  const stats = [
+  const formatSwing = (swing: number) => {
+    return swing === 1 ? "Straight" : `${swing.toFixed(2)}:1`;
+  };
+
+  const candidates = result.keyCandidates ?? [];
+  const keyPicker: ReactNode = onKeyChange && result.detectedKey && candidates.length > 1 ? (
+    <Select value={result.detectedKey} onValueChange={onKeyChange} disabled={keyChanging}>
+      <SelectTrigger className="h-8 px-2 text-base font-bold" data-testid="select-detected-key">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {candidates.map((candidate) => (
+          <SelectItem key={candidate.key} value={candidate.key} data-testid={`key-candidate-${candidate.key}`}>
+            {candidate.key}
+            <span className="ml-2 text-xs text-muted-foreground">r = {candidate.score.toFixed(2)}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  ) : undefined;
+
+  const stats: {
+    icon: typeof Music;
+    label: string;
+    value: string;
+    control?: ReactNode;
+    color: string;
+    bgColor: string;
+  }[] = [
     {
       icon: Music,
       label: "Detected Notes",
@@ -44,6 +77,7 @@ export function MetadataDisplay({ result, fileSize, fileName }: MetadataDisplayP
       icon: Key,
       label: "Detected Key",
       value: result.detectedKey || "N/A",
+      control: keyPicker,
       color: "text-chart-3",
       bgColor: "bg-chart-3/10",
     },
@@ -54,6 +88,27 @@ export function MetadataDisplay({ result, fileSize, fileName }: MetadataDisplayP
       color: "text-chart-4",
       bgColor: "bg-chart-4/10",
     },
+    {
+      icon: Ruler,
+      label: "Meter",
+      value: result.timeSignature || "N/A",
+      color: "text-chart-1",
+      bgColor: "bg-chart-1/10",
+    },
+    {
+      icon: Activity,
+      label: "Swing",
+      value: result.groove ? formatSwing(result.groove.swing) : "N/A",
+      color: "text-chart-2",
+      bgColor: "bg-chart-2/10",
+    },
+    {
+      icon: AudioLines,
+      label: "Tuning",
+      value: result.referencePitch ? `A4 = ${result.referencePitch} Hz` : "N/A",
+      color: "text-chart-3",
+      bgColor: "bg-chart-3/10",
+    },
     {
       icon: Clock,
       label: "Duration",
@@ -71,7 +126,7 @@ export function MetadataDisplay({ result, fileSize, fileName }: MetadataDisplayP
   ];
 
   return (
-    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3" data-testid="metadata-display">
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 xl:grid-cols-9 gap-3" data-testid="metadata-display">
       {stats.map((stat) => (
         <Card 
           key={stat.label} 
@@ -84,9 +139,11 @@ export function MetadataDisplay({ result, fileSize, fileName }: MetadataDisplayP
             </div>
             <div className="min-w-0">
               <p className="text-xs text-muted-foreground truncate">{stat.label}</p>
-              <p className="text-lg font-bold text-foreground truncate" data-testid={`value-${stat.label.toLowerCase().replace(/\s+/g, "-")}`}>
-                {stat.value}
-              </p>
+              {stat.control ?? (
+                <p className="text-lg font-bold text-foreground truncate" data-testid={`value-${stat.label.toLowerCase().replace(/\s+/g, "-")}`}>
+                  {stat.value}
+                </p>
+              )}
             </div>
           </div>
         </Card>
@@ -18,28 +18,51 @@ import type { Note, Chord } from "@shared/schema";
 interface MidiExportProps {
   melody: Note[];
   chords: Chord[];
+  bass?: Note[];
   tempo: number;
+  timeSignature?: string;
+  firstDownbeat?: number;
+  referencePitch?: number;
   fileName?: string;
 }
 
-export function MidiExport({ melody, chords, tempo, fileName }: MidiExportProps) {
+export function MidiExport({
+  melody,
+  chords,
+  bass = [],
+  tempo,
+  timeSignature = "4/4",
+  firstDownbeat,
+  referencePitch = 440,
+  fileName,
+}: MidiExportProps) {
   const [open, setOpen] = useState(false);
   const [includeMelody, setIncludeMelody] = useState(true);
   const [includeChords, setIncludeChords] = useState(true);
+  const [includeBass, setIncludeBass] = useState(true);
+  const [pitchBend, setPitchBend] = useState(false);
   const [customFileName, setCustomFileName] = useState(
     fileName?.replace(/\.[^.]+$/, "") || "audio-extract"
   );
 
   const handleExport = () => {
-    downloadMidiFile(melody, chords, {
+    downloadMidiFile(melody, chords, bass, {
       tempo,
+      timeSignature,
+      firstDownbeat,
       includeMelody,
       includeChords,
+      includeBass,
+      referencePitch,
+      pitchBend,
     }, `${customFileName}.mid`);
     setOpen(false);
   };
 
-  const canExport = (includeMelody && melody.length > 0) || (includeChords && chords.length > 0);
+  const canExport =
+    (includeMelody && melody.length > 0) ||
+    (includeChords && chords.length > 0) ||
+    (includeBass && bass.length > 0);
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -115,11 +138,49 @@ export function MidiExport({ melody, chords, tempo, fileName }: MidiExportProps)
                 data-testid="switch-include-chords"
               />
             </div>
+
+            {bass.length > 0 && (
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="include-bass" className="font-normal">
+                    Bass Line
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    {bass.length} note{bass.length !== 1 ? "s" : ""} on its own track, Channel 3
+                  </p>
+                </div>
+                <Switch
+                  id="include-bass"
+                  checked={includeBass}
+                  onCheckedChange={setIncludeBass}
+                  data-testid="switch-include-bass"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="pitch-bend" className="font-normal">
+                Pitch Bend
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Keep the A4 = {referencePitch} Hz tuning and each note's cents offset
+              </p>
+            </div>
+            <Switch
+              id="pitch-bend"
+              checked={pitchBend}
+              onCheckedChange={setPitchBend}
+              data-testid="switch-pitch-bend"
+            />
           </div>
 
           <div className="rounded-md bg-muted/50 p-3 text-sm text-muted-foreground">
             <p>
               Tempo: <span className="font-mono font-medium text-foreground">{tempo} BPM</span>
+              {" · "}
+              Time signature: <span className="font-mono font-medium text-foreground">{timeSignature}</span>
             </p>
             <p className="mt-1">
               The MIDI file will be compatible with most DAWs including 
@@ -113,6 +113,14 @@ export function NoteEditor({ melody, chords, onMelodyChange, onChordsChange }: N
     onMelodyChange([...melody, newNote]);
   }, [melody, onMelodyChange, saveHistory]);
 
+  // Duplicates a note in place so a second pitch can be stacked on it.
+  const stackNote = useCallback((index: number) => {
+    saveHistory();
+    const newMelody = [...melody];
+    newMelody.splice(index + 1, 0, { ...melody[index] });
+    onMelodyChange(newMelody);
+  }, [melody, onMelodyChange, saveHistory]);
+
   const moveNoteUp = useCallback((index: number) => {
     const { noteName, octave } = parseNote(melody[index].note);
     const noteIdx = NOTE_NAMES.indexOf(noteName);
@@ -126,7 +134,7 @@ export function NoteEditor({ melody, chords, onMelodyChange, onChordsChange }: N
       newNoteName = NOTE_NAMES[noteIdx + 1];
     }
     
-    updateNote(index, { note: formatNote(newNoteName, newOctave) });
+    updateNote(index, { note: formatNote(newNoteName, newOctave), cents: undefined });
   }, [melody, updateNote]);
 
   const moveNoteDown = useCallback((index: number) => {
@@ -142,7 +150,7 @@ export function NoteEditor({ melody, chords, onMelodyChange, onChordsChange }: N
       newNoteName = NOTE_NAMES[noteIdx - 1];
     }
     
-    updateNote(index, { note: formatNote(newNoteName, newOctave) });
+    updateNote(index, { note: formatNote(newNoteName, newOctave), cents: undefined });
   }, [melody, updateNote]);
 
   const updateChord = useCallback((index: number, updates: Partial<Chord>) => {
@@ -231,6 +239,7 @@ export function NoteEditor({ melody, chords, onMelodyChange, onChordsChange }: N
               <div className="space-y-2">
                 {melody.map((note, index) => {
                   const { noteName, octave } = parseNote(note.note);
+                  const startsWithPrevious = index > 0 && Math.abs(melody[index - 1].time - note.time) < 0.01;
                   return (
                     <div
                       key={`note-${index}`}
@@ -273,11 +282,27 @@ export function NoteEditor({ melody, chords, onMelodyChange, onChordsChange }: N
                         </Tooltip>
                       </div>
 
-                      <span className="text-xs text-muted-foreground font-mono flex-1">
+                      <span className="text-xs text-muted-foreground font-mono flex-1 flex items-center gap-1">
+                        {startsWithPrevious && (
+                          <Layers className="w-3 h-3" aria-label="Sounds with the previous note" />
+                        )}
                         {note.time.toFixed(2)}s • {(note.duration || 0.25).toFixed(2)}s
                       </span>
 
                       <div className="flex items-center gap-1">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => stackNote(index)}
+                              data-testid={`button-stack-note-${index}`}
+                            >
+                              <Plus className="w-3.5 h-3.5" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Stack a note at the same time</TooltipContent>
+                        </Tooltip>
                         <Tooltip>
                           <TooltipTrigger asChild>
                             <Button
@@ -415,7 +440,7 @@ export function NoteEditor({ melody, chords, onMelodyChange, onChordsChange }: N
                     value={parseNote(editingNote.note.note).noteName}
                     onValueChange={(value) => {
                       const { octave } = parseNote(editingNote.note.note);
-                      const newNote = { ...editingNote.note, note: formatNote(value, octave) };
+                      const newNote = { ...editingNote.note, note: formatNote(value, octave), cents: undefined };
                       updateNote(editingNote.index, newNote);
                       setEditingNote({ ...editingNote, note: newNote });
                     }}
@@ -436,7 +461,7 @@ export function NoteEditor({ melody, chords, onMelodyChange, onChordsChange }: N
                     value={String(parseNote(editingNote.note.note).octave)}
                     onValueChange={(value) => {
                       const { noteName } = parseNote(editingNote.note.note);
-                      const newNote = { ...editingNote.note, note: formatNote(noteName, parseInt(value, 10)) };
+                      const newNote = { ...editingNote.note, note: formatNote(noteName, parseInt(value, 10)), cents: undefined };
                       updateNote(editingNote.index, newNote);
                       setEditingNote({ ...editingNote, note: newNote });
                     }}
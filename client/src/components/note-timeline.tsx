@@ -1,9 +1,17 @@
+import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
-import type { Note, Chord } from "@shared/schema";
+import { channelLabel } from "@shared/analysis";
+import type { Note, Chord, KeySegment, ChannelLayer } from "@shared/schema";
 
 interface NoteTimelineProps {
   melody: Note[];
   chords: Chord[];
+  bass?: Note[];
+  keySegments?: KeySegment[];
+  // Channel melody, bass and chords were analyzed from.
+  channel?: string;
+  // Further channels of a per-channel analysis.
+  channelLayers?: ChannelLayer[];
   duration: number;
 }
 
@@ -30,20 +38,31 @@ const midiToNoteName = (midi: number): string => {
   return `${note}${octave}`;
 };
 
-export function NoteTimeline({ melody, chords, duration }: NoteTimelineProps) {
-  if (melody.length === 0 && chords.length === 0) {
-    return (
-      <Card className="p-6 border border-border/50">
-        <div className="h-48 flex items-center justify-center text-muted-foreground">
-          <p>Note timeline will appear after analysis</p>
-        </div>
-      </Card>
-    );
-  }
+const getNoteColor = (index: number) => {
+  const colors = [
+    "bg-chart-1",
+    "bg-chart-2", 
+    "bg-chart-3",
+    "bg-chart-4",
+    "bg-chart-5",
+  ];
+  return colors[index % colors.length];
+};
+
+interface PianoRollProps {
+  notes: Note[];
+  duration: number;
+  // Lowest and highest MIDI note the roll may show; the range shrinks to fit.
+  floor: number;
+  ceiling: number;
+  colorFor: (index: number) => string;
+  testIdPrefix: string;
+}
 
-  const allMidiNotes = melody.map(n => noteToMidi(n.note));
-  const minMidi = Math.max(36, Math.min(...allMidiNotes) - 2);
-  const maxMidi = Math.min(96, Math.max(...allMidiNotes) + 2);
+function PianoRoll({ notes, duration, floor, ceiling, colorFor, testIdPrefix }: PianoRollProps) {
+  const allMidiNotes = notes.map(n => noteToMidi(n.note));
+  const minMidi = Math.max(floor, Math.min(...allMidiNotes) - 2);
+  const maxMidi = Math.min(ceiling, Math.max(...allMidiNotes) + 2);
   const noteRange = maxMidi - minMidi + 1;
   
   const pianoKeys = [];
@@ -52,80 +71,169 @@ export function NoteTimeline({ melody, chords, duration }: NoteTimelineProps) {
     pianoKeys.push({ midi, isBlack, name: midiToNoteName(midi) });
   }
 
-  const getNoteColor = (index: number) => {
-    const colors = [
-      "bg-chart-1",
-      "bg-chart-2", 
-      "bg-chart-3",
-      "bg-chart-4",
-      "bg-chart-5",
-    ];
-    return colors[index % colors.length];
-  };
-
   return (
-    <Card className="p-4 border border-border/50 overflow-hidden">
-      <div className="flex gap-0" data-testid="note-timeline">
-        <div className="flex-shrink-0 w-12 border-r border-border/50">
-          {pianoKeys.map(({ midi, isBlack, name }) => (
+    <div className="flex gap-0" data-testid={`${testIdPrefix}-timeline`}>
+      <div className="flex-shrink-0 w-12 border-r border-border/50">
+        {pianoKeys.map(({ midi, isBlack, name }) => (
+          <div
+            key={midi}
+            className={`
+              h-4 flex items-center justify-end pr-1.5 text-[10px] font-mono
+              ${isBlack ? "bg-muted text-muted-foreground" : "bg-card text-foreground/70"}
+              ${midi % 12 === 0 ? "font-semibold" : ""}
+            `}
+          >
+            {midi % 12 === 0 ? name : ""}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex-1 relative overflow-x-auto">
+        <div 
+          className="relative"
+          style={{ 
+            width: `${Math.max(100, duration * 100)}px`,
+            height: `${noteRange * 16}px` 
+          }}
+        >
+          {pianoKeys.map(({ midi, isBlack }, index) => (
             <div
               key={midi}
               className={`
-                h-4 flex items-center justify-end pr-1.5 text-[10px] font-mono
-                ${isBlack ? "bg-muted text-muted-foreground" : "bg-card text-foreground/70"}
-                ${midi % 12 === 0 ? "font-semibold" : ""}
+                absolute left-0 right-0 h-4 border-b border-border/20
+                ${isBlack ? "bg-muted/30" : "bg-background"}
               `}
-            >
-              {midi % 12 === 0 ? name : ""}
-            </div>
+              style={{ top: `${index * 16}px` }}
+            />
           ))}
-        </div>
 
-        <div className="flex-1 relative overflow-x-auto">
-          <div 
-            className="relative"
-            style={{ 
-              width: `${Math.max(100, duration * 100)}px`,
-              height: `${noteRange * 16}px` 
-            }}
-          >
-            {pianoKeys.map(({ midi, isBlack }, index) => (
+          {notes.map((note, index) => {
+            const noteMidi = noteToMidi(note.note);
+            const yPos = (maxMidi - noteMidi) * 16;
+            const xPos = (note.time / duration) * Math.max(100, duration * 100);
+            const noteWidth = Math.max(12, ((note.duration || 0.25) / duration) * Math.max(100, duration * 100));
+
+            return (
               <div
-                key={midi}
+                key={`${note.note}-${note.time}-${index}`}
                 className={`
-                  absolute left-0 right-0 h-4 border-b border-border/20
-                  ${isBlack ? "bg-muted/30" : "bg-background"}
+                  absolute h-3.5 rounded-sm ${colorFor(index)}
+                  shadow-sm transition-all duration-150 hover:brightness-110 hover:scale-y-110
                 `}
-                style={{ top: `${index * 16}px` }}
+                style={{
+                  left: `${xPos}px`,
+                  top: `${yPos + 1}px`,
+                  width: `${noteWidth}px`,
+                }}
+                title={`${note.note} at ${note.time.toFixed(2)}s`}
+                data-testid={`${testIdPrefix}-block-${index}`}
               />
-            ))}
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
 
-            {melody.map((note, index) => {
-              const noteMidi = noteToMidi(note.note);
-              const yPos = (maxMidi - noteMidi) * 16;
-              const xPos = (note.time / duration) * Math.max(100, duration * 100);
-              const noteWidth = Math.max(12, ((note.duration || 0.25) / duration) * Math.max(100, duration * 100));
-
-              return (
-                <div
-                  key={`${note.note}-${note.time}-${index}`}
-                  className={`
-                    absolute h-3.5 rounded-sm ${getNoteColor(index)}
-                    shadow-sm transition-all duration-150 hover:brightness-110 hover:scale-y-110
-                  `}
-                  style={{
-                    left: `${xPos}px`,
-                    top: `${yPos + 1}px`,
-                    width: `${noteWidth}px`,
-                  }}
-                  title={`${note.note} at ${note.time.toFixed(2)}s`}
-                  data-testid={`note-block-${index}`}
-                />
-              );
-            })}
+export function NoteTimeline({
+  melody,
+  chords,
+  bass = [],
+  keySegments = [],
+  channel,
+  channelLayers = [],
+  duration,
+}: NoteTimelineProps) {
+  if (melody.length === 0 && chords.length === 0 && bass.length === 0) {
+    return (
+      <Card className="p-6 border border-border/50">
+        <div className="h-48 flex items-center justify-center text-muted-foreground">
+          <p>Note timeline will appear after analysis</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4 border border-border/50 overflow-hidden">
+      {channel && (
+        <div className="flex items-center gap-2 mb-3">
+          <Badge variant="secondary" className="text-xs" data-testid="badge-timeline-channel">
+            {channelLabel(channel)}
+          </Badge>
+        </div>
+      )}
+
+      {melody.length > 0 && (
+        <PianoRoll
+          notes={melody}
+          duration={duration}
+          floor={36}
+          ceiling={96}
+          colorFor={getNoteColor}
+          testIdPrefix="note"
+        />
+      )}
+
+      {bass.length > 0 && (
+        <div className={melody.length > 0 ? "mt-4 pt-4 border-t border-border/50" : ""}>
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-sm font-medium text-muted-foreground">Bass Line:</span>
           </div>
+          <PianoRoll
+            notes={bass}
+            duration={duration}
+            floor={21}
+            ceiling={60}
+            colorFor={() => "bg-chart-4"}
+            testIdPrefix="bass"
+          />
         </div>
-      </div>
+      )}
+
+      {channelLayers.map((layer) => layer.melody.length > 0 && (
+        <div key={layer.channel} className="mt-4 pt-4 border-t border-border/50">
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-sm font-medium text-muted-foreground">{channelLabel(layer.channel)}:</span>
+          </div>
+          <PianoRoll
+            notes={layer.melody}
+            duration={duration}
+            floor={36}
+            ceiling={96}
+            colorFor={() => "bg-chart-5"}
+            testIdPrefix={`channel-${layer.channel.replace(/\W+/g, "")}`}
+          />
+        </div>
+      ))}
+
+      {keySegments.length > 0 && duration > 0 && (
+        <div className="mt-4 pt-4 border-t border-border/50">
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-sm font-medium text-muted-foreground">Key:</span>
+          </div>
+          <div className="relative h-7 rounded-md overflow-hidden bg-muted/30" data-testid="key-lane">
+            {keySegments.map((segment, index) => (
+              <div
+                key={`key-${index}`}
+                className={`
+                  absolute top-0 bottom-0 flex items-center px-2 border-r border-background
+                  text-xs font-mono font-medium text-white truncate ${getNoteColor(index)}
+                `}
+                style={{
+                  left: `${(segment.time / duration) * 100}%`,
+                  width: `${(segment.duration / duration) * 100}%`,
+                }}
+                title={`${segment.key} from ${segment.time.toFixed(1)}s to ${(segment.time + segment.duration).toFixed(1)}s`}
+                data-testid={`key-segment-${index}`}
+              >
+                {segment.key}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
 
       {chords.length > 0 && (
         <div className="mt-4 pt-4 border-t border-border/50">
@@ -140,6 +248,7 @@ export function NoteTimeline({ melody, chords, duration }: NoteTimelineProps) {
                   px-3 py-1.5 rounded-md text-sm font-mono font-medium
                   ${getNoteColor(index)} text-white
                 `}
+                title={`${chord.name} at ${chord.time.toFixed(2)}s${chord.confidence !== undefined ? ` (${Math.round(chord.confidence * 100)}% confidence)` : ""}`}
                 data-testid={`chord-block-${index}`}
               >
                 {chord.name}
@@ -153,7 +153,7 @@ export function PatternPlayer({ melody, chords, tempo, detectedKey }: PatternPla
         
         const freq = getFrequency(note.note);
         const noteDuration = note.duration || beatDuration;
-        const startTime = now + (note.time || index * beatDuration);
+        const startTime = now + (note.time ?? index * beatDuration);
         
         playNote(ctx, freq, startTime, Math.min(noteDuration, 2), "triangle");
         
@@ -183,14 +183,15 @@ export function PatternPlayer({ melody, chords, tempo, detectedKey }: PatternPla
       const progressPercent = Math.min((elapsed / durationRef.current) * 100, 100);
       setProgress(progressPercent);
       
-      const currentMelodyNote = melody.find((note, idx) => {
-        const noteTime = note.time || idx * beatDuration;
+      // Polyphonic melodies can have several notes sounding at once.
+      const soundingNotes = melody.filter((note, idx) => {
+        const noteTime = note.time ?? idx * beatDuration;
         const noteDur = note.duration || beatDuration;
         return elapsed >= noteTime && elapsed < noteTime + noteDur;
       });
       
-      if (currentMelodyNote) {
-        setCurrentNote(currentMelodyNote.note);
+      if (soundingNotes.length > 0) {
+        setCurrentNote(soundingNotes.map(note => note.note).join(" "));
       }
       
       if (elapsed < durationRef.current) {
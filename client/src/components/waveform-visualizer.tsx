@@ -1,59 +1,129 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import { Play, Square, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { readWaveform, type WaveformOverview } from "@/lib/audio-decoder";
+import { channelLabel } from "@shared/analysis";
+import type { ChannelMode, Region } from "@shared/schema";
+
+// Drags shorter than this are clicks and clear the selection.
+const MIN_REGION_SECONDS = 0.5;
 
 interface WaveformVisualizerProps {
   audioFile: File | null;
   waveformData?: number[];
+  // Channel the waveform data was taken from, shown over the waveform.
+  channel?: string;
+  // Channel drawn when the waveform is computed from `audioFile`.
+  channelMode?: ChannelMode;
+  // Selected part of `audioFile`. Dragging over the waveform selects a region
+  // when `onRegionChange` is given.
+  region?: Region;
+  onRegionChange?: (region: Region | undefined) => void;
 }
 
-export function WaveformVisualizer({ audioFile, waveformData }: WaveformVisualizerProps) {
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  return `${mins}:${(seconds - mins * 60).toFixed(1).padStart(4, "0")}`;
+};
+
+export function WaveformVisualizer({
+  audioFile,
+  waveformData,
+  channel,
+  channelMode = "mid",
+  region,
+  onRegionChange,
+}: WaveformVisualizerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [localWaveform, setLocalWaveform] = useState<number[]>([]);
+  const [overview, setOverview] = useState<WaveformOverview | null>(null);
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  const [dragRegion, setDragRegion] = useState<Region | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const previewRef = useRef<{ audio: HTMLAudioElement; url: string } | null>(null);
+  const selectable = onRegionChange !== undefined && overview !== null;
+  // The file is read to draw it or to select a region, keeping only its
+  // length and levels; previews play the file itself.
+  const needsAudio = onRegionChange !== undefined || !waveformData || waveformData.length === 0;
+  const localWaveform = useMemo(
+    () => (waveformData && waveformData.length > 0 ? waveformData : overview?.peaks ?? []),
+    [waveformData, overview]
+  );
 
   useEffect(() => {
-    if (waveformData && waveformData.length > 0) {
-      setLocalWaveform(waveformData);
-      return;
-    }
-
-    if (!audioFile) {
-      setLocalWaveform([]);
-      return;
-    }
-
-    const loadWaveform = async () => {
-      try {
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const arrayBuffer = await audioFile.arrayBuffer();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-        
-        const channelData = audioBuffer.getChannelData(0);
-        const samples = 200;
-        const blockSize = Math.floor(channelData.length / samples);
-        const filteredData: number[] = [];
-
-        for (let i = 0; i < samples; i++) {
-          const blockStart = blockSize * i;
-          let sum = 0;
-          for (let j = 0; j < blockSize; j++) {
-            sum += Math.abs(channelData[blockStart + j]);
-          }
-          filteredData.push(sum / blockSize);
-        }
-
-        const maxVal = Math.max(...filteredData);
-        const normalized = filteredData.map(val => val / maxVal);
-        setLocalWaveform(normalized);
-        
-        await audioContext.close();
-      } catch (err) {
-        console.error("Failed to load waveform:", err);
-      }
+    setOverview(null);
+    if (!needsAudio || !audioFile) return;
+
+    let cancelled = false;
+    readWaveform(audioFile, channelMode)
+      .then(read => {
+        if (!cancelled) setOverview(read);
+      })
+      .catch(err => console.error("Failed to load waveform:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [audioFile, needsAudio, channelMode]);
+
+  const stopPreview = useCallback(() => {
+    const preview = previewRef.current;
+    previewRef.current = null;
+    setPreviewing(false);
+    if (!preview) return;
+    preview.audio.ontimeupdate = null;
+    preview.audio.pause();
+    URL.revokeObjectURL(preview.url);
+  }, []);
+
+  useEffect(() => stopPreview, [stopPreview, audioFile, region]);
+
+  const startPreview = () => {
+    if (!audioFile || !overview) return;
+    stopPreview();
+    const url = URL.createObjectURL(audioFile);
+    const audio = new Audio(url);
+    const end = region?.end ?? overview.duration;
+    audio.currentTime = region?.start ?? 0;
+    audio.ontimeupdate = () => {
+      if (audio.currentTime >= end) stopPreview();
     };
+    audio.onended = stopPreview;
+    previewRef.current = { audio, url };
+    setPreviewing(true);
+    audio.play().catch(stopPreview);
+  };
+
+  const timeAt = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    return fraction * (overview?.duration ?? 0);
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!selectable) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const time = timeAt(event);
+    setDragStart(time);
+    setDragRegion({ start: time, end: time });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragStart === null) return;
+    const time = timeAt(event);
+    setDragRegion({ start: Math.min(dragStart, time), end: Math.max(dragStart, time) });
+  };
+
+  const handlePointerUp = () => {
+    if (dragStart === null || !dragRegion) return;
+    setDragStart(null);
+    setDragRegion(null);
+    onRegionChange?.(dragRegion.end - dragRegion.start >= MIN_REGION_SECONDS ? dragRegion : undefined);
+  };
 
-    loadWaveform();
-  }, [audioFile, waveformData]);
+  const shownRegion = dragRegion ?? (selectable ? region : undefined);
+  const totalDuration = overview?.duration ?? 0;
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -135,7 +205,10 @@ export function WaveformVisualizer({ audioFile, waveformData }: WaveformVisualiz
     <Card className="p-4 border border-border/50">
       <div 
         ref={containerRef} 
-        className="relative h-32 w-full rounded-lg bg-background/50 overflow-hidden"
+        className={`relative h-32 w-full rounded-lg bg-background/50 overflow-hidden ${selectable ? "cursor-crosshair select-none" : ""}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
         data-testid="waveform-container"
       >
         <canvas 
@@ -143,7 +216,55 @@ export function WaveformVisualizer({ audioFile, waveformData }: WaveformVisualiz
           className="absolute inset-0"
           data-testid="waveform-canvas"
         />
+        {shownRegion && totalDuration > 0 && (
+          <div
+            className="absolute top-0 bottom-0 bg-primary/20 border-x-2 border-primary pointer-events-none"
+            style={{
+              left: `${(shownRegion.start / totalDuration) * 100}%`,
+              width: `${((shownRegion.end - shownRegion.start) / totalDuration) * 100}%`,
+            }}
+            data-testid="waveform-region"
+          />
+        )}
+        {channel && (
+          <Badge variant="secondary" className="absolute top-2 left-2 text-xs" data-testid="badge-waveform-channel">
+            {channelLabel(channel)}
+          </Badge>
+        )}
       </div>
+      {selectable && (
+        <div className="flex items-center justify-between gap-2 mt-3 flex-wrap">
+          <p className="text-xs text-muted-foreground" data-testid="text-region">
+            {region
+              ? `Region ${formatTime(region.start)} - ${formatTime(region.end)} (${(region.end - region.start).toFixed(1)}s)`
+              : "Drag across the waveform to analyze only part of the file"}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={previewing ? stopPreview : startPreview}
+              data-testid="button-preview-region"
+            >
+              {previewing ? <Square className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+              {previewing ? "Stop" : region ? "Preview region" : "Preview"}
+            </Button>
+            {region && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-2"
+                onClick={() => onRegionChange?.(undefined)}
+                data-testid="button-clear-region"
+              >
+                <X className="w-3.5 h-3.5" />
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
     </Card>
   );
 }
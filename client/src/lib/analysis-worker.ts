@@ -0,0 +1,253 @@
+import { AnalysisAbortedError, clampRegion, regionSamples, STREAMING_MIN_SECONDS, type StreamPartial } from "@shared/analysis";
+import type { AnalysisParams, AnalysisResult, ProcessingStatus, Region } from "@shared/schema";
+import { bufferStream, decodeAudioFile, openAudioStream, type AudioStream } from "@/lib/audio-decoder";
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from "@/workers/analysis.worker";
+
+// How long a cancelled job may keep running inside its current stage before
+// the worker is terminated outright.
+const ABORT_GRACE_MS = 1000;
+
+interface PendingJob {
+  resolve: (result: AnalysisResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (status: ProcessingStatus) => void;
+  onPartial?: (partial: StreamPartial) => void;
+  onReady?: () => void;
+}
+
+export interface AnalysisRunOptions {
+  onProgress?: (status: ProcessingStatus) => void;
+  signal?: AbortSignal;
+}
+
+export interface FileAnalysisOptions extends AnalysisRunOptions {
+  // Notes and chords of each window of a long recording as it is analyzed.
+  onPartial?: (partial: StreamPartial) => void;
+  // Things the user should know that don't stop the analysis.
+  onWarning?: (message: string) => void;
+}
+
+const LONG_COMPRESSED_WARNING =
+  "MP3, OGG and FLAC files are decoded whole before analysis, which takes a lot of memory for long recordings. " +
+  "Convert the file to WAV to have it read a block at a time.";
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const jobs = new Map<number, PendingJob>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("../workers/analysis.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+    const message = event.data;
+    const job = jobs.get(message.id);
+    if (!job) return;
+
+    switch (message.type) {
+      case "progress":
+        job.onProgress?.(message.status);
+        return;
+      case "partial":
+        job.onPartial?.(message.partial);
+        return;
+      case "ready":
+        job.onReady?.();
+        return;
+      case "result":
+        job.resolve(message.result);
+        break;
+      case "aborted":
+        job.reject(new AnalysisAbortedError());
+        break;
+      case "error":
+        job.reject(new Error(message.message));
+        break;
+    }
+    jobs.delete(message.id);
+  };
+  worker.onerror = event => {
+    const error = new Error(event.message || "Analysis worker crashed");
+    jobs.forEach(job => job.reject(error));
+    jobs.clear();
+    resetWorker();
+  };
+  return worker;
+}
+
+function resetWorker() {
+  worker?.terminate();
+  worker = null;
+}
+
+function send(target: Worker, request: AnalysisWorkerRequest, transfer: Transferable[] = []) {
+  target.postMessage(request, transfer);
+}
+
+function settles(message: AnalysisWorkerResponse): boolean {
+  return message.type === "result" || message.type === "aborted" || message.type === "error";
+}
+
+// Rejects job `id` once `signal` aborts and tells the worker to stop it,
+// terminating the worker if the job doesn't wind down in time.
+function cancelOnAbort(target: Worker, id: number, signal?: AbortSignal) {
+  signal?.addEventListener("abort", () => {
+    const job = jobs.get(id);
+    if (!job) return;
+    jobs.delete(id);
+    job.reject(new AnalysisAbortedError());
+
+    send(target, { type: "abort", id });
+    const timer = setTimeout(() => {
+      if (worker === target && jobs.size === 0) resetWorker();
+    }, ABORT_GRACE_MS);
+    target.addEventListener("message", function onAborted(event: MessageEvent<AnalysisWorkerResponse>) {
+      if (event.data.id !== id || !settles(event.data)) return;
+      clearTimeout(timer);
+      target.removeEventListener("message", onAborted);
+    });
+  }, { once: true });
+}
+
+// Runs the shared analysis pipeline off the main thread, one array of
+// samples per channel. The samples are transferred to the worker, so the
+// caller must not reuse them afterwards.
+export function runAnalysis(
+  channels: Float32Array[],
+  sampleRate: number,
+  params: AnalysisParams,
+  { onProgress, signal }: AnalysisRunOptions = {}
+): Promise<AnalysisResult> {
+  if (signal?.aborted) return Promise.reject(new AnalysisAbortedError());
+
+  const target = getWorker();
+  const id = nextJobId++;
+
+  return new Promise<AnalysisResult>((resolve, reject) => {
+    jobs.set(id, { resolve, reject, onProgress });
+    cancelOnAbort(target, id, signal);
+    send(target, { type: "analyze", id, channels, sampleRate, params }, channels.map(channel => channel.buffer));
+  });
+}
+
+// Copies the channels out of the AudioBuffer so its own storage stays intact.
+function copyChannels(audioBuffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i).slice());
+}
+
+// Samples of `region` of a file (all of it when unset), one array per
+// channel, read the way analyzeFile reads the file: long WAV files from disk
+// for just the region, anything else decoded whole.
+async function readRegion(file: File, region: Region | undefined): Promise<Float32Array[]> {
+  const stream = await openAudioStream(file);
+  if (stream && stream.duration >= STREAMING_MIN_SECONDS) {
+    return stream.read(region ?? { start: 0, end: stream.duration });
+  }
+  const audioBuffer = await decodeAudioFile(file);
+  return Array.from({ length: audioBuffer.numberOfChannels }, (_, i) =>
+    regionSamples(audioBuffer.getChannelData(i), audioBuffer.sampleRate, region).slice()
+  );
+}
+
+// Re-runs the key-dependent steps of `result` for `key` off the main thread,
+// recognizing chords again from the analyzed part of `file`.
+export async function applyKeyToFile(
+  file: File,
+  result: AnalysisResult,
+  key: string,
+  params: AnalysisParams
+): Promise<AnalysisResult> {
+  const channels = await readRegion(file, result.region);
+  const target = getWorker();
+  const id = nextJobId++;
+
+  return new Promise<AnalysisResult>((resolve, reject) => {
+    jobs.set(id, { resolve, reject });
+    send(target, { type: "applyKey", id, channels, result, key, params }, channels.map(channel => channel.buffer));
+  });
+}
+
+export function analyzeAudioBuffer(
+  audioBuffer: AudioBuffer,
+  params: AnalysisParams,
+  options: AnalysisRunOptions = {}
+): Promise<AnalysisResult> {
+  return runAnalysis(copyChannels(audioBuffer), audioBuffer.sampleRate, params, options);
+}
+
+// Streams `stream` to the worker a block at a time, sending the next one
+// whenever the worker asks for it, so only a block or two of the recording
+// is in flight at once.
+function runStreamAnalysis(
+  stream: AudioStream,
+  params: AnalysisParams,
+  { onProgress, onPartial, signal }: FileAnalysisOptions = {}
+): Promise<AnalysisResult> {
+  if (signal?.aborted) return Promise.reject(new AnalysisAbortedError());
+
+  const target = getWorker();
+  const id = nextJobId++;
+  const chunks = stream.chunks();
+
+  return new Promise<AnalysisResult>((resolve, reject) => {
+    const sendNext = async () => {
+      try {
+        const { value, done } = await chunks.next();
+        if (!jobs.has(id)) {
+          await chunks.return(undefined);
+        } else if (done) {
+          send(target, { type: "end", id });
+        } else {
+          send(target, { type: "chunk", id, channels: value }, value.map(channel => channel.buffer));
+        }
+      } catch (error) {
+        if (!jobs.has(id)) return;
+        jobs.delete(id);
+        send(target, { type: "abort", id });
+        reject(error instanceof Error ? error : new Error("Could not read the audio file"));
+      }
+    };
+
+    jobs.set(id, { resolve, reject, onProgress, onPartial, onReady: sendNext });
+    cancelOnAbort(target, id, signal);
+    send(target, { type: "stream", id, sampleRate: stream.sampleRate, duration: stream.duration, params });
+  });
+}
+
+// Analyzes a recording long enough for analyzeStream: sent to the worker a
+// block at a time, reporting notes and chords as it goes, unless only a
+// short region of it is analyzed, which is read on its own.
+async function analyzeLongStream(
+  stream: AudioStream,
+  params: AnalysisParams,
+  options: FileAnalysisOptions
+): Promise<AnalysisResult> {
+  const region = clampRegion(params.region, stream.duration);
+  if (!region || region.end - region.start >= STREAMING_MIN_SECONDS) {
+    return runStreamAnalysis(stream, params, options);
+  }
+  const channels = await stream.read(region);
+  const result = await runAnalysis(channels, stream.sampleRate, { ...params, region: undefined }, options);
+  return { ...result, region };
+}
+
+// Analyzes an audio file off the main thread. Long WAV recordings are read
+// from disk a block at a time. Compressed files can only be decoded whole;
+// long ones are then streamed to the worker from memory, with a warning.
+export async function analyzeFile(
+  file: File,
+  params: AnalysisParams,
+  options: FileAnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const stream = await openAudioStream(file);
+  if (stream && stream.duration >= STREAMING_MIN_SECONDS) {
+    return analyzeLongStream(stream, params, options);
+  }
+
+  const audioBuffer = await decodeAudioFile(file);
+  if (stream || audioBuffer.duration < STREAMING_MIN_SECONDS) {
+    return analyzeAudioBuffer(audioBuffer, params, options);
+  }
+  options.onWarning?.(LONG_COMPRESSED_WARNING);
+  return analyzeLongStream(bufferStream(audioBuffer), params, options);
+}
@@ -0,0 +1,196 @@
+import { extractWaveformData, selectChannel } from "@shared/analysis";
+import type { ChannelMode, Region } from "@shared/schema";
+
+export async function decodeAudioFile(file: File): Promise<AudioBuffer> {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    await audioContext.close();
+  }
+}
+
+// Blocks of a stream hold about this many seconds of audio.
+const CHUNK_SECONDS = 5;
+
+export interface AudioStream {
+  sampleRate: number;
+  channelCount: number;
+  duration: number;
+  // Consecutive blocks of samples, one array per channel, each in a buffer
+  // of its own.
+  chunks(): AsyncGenerator<Float32Array[]>;
+  // Samples of `region` alone, one array per channel.
+  read(region: Region): Promise<Float32Array[]>;
+}
+
+interface WavFormat {
+  sampleRate: number;
+  channelCount: number;
+  bitsPerSample: number;
+  float: boolean;
+  dataOffset: number;
+  dataLength: number;
+}
+
+async function readBytes(file: File, start: number, length: number): Promise<DataView> {
+  return new DataView(await file.slice(start, start + length).arrayBuffer());
+}
+
+function fourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+}
+
+// Format and sample data position of an uncompressed WAV file, read from its
+// chunk headers alone. Null for anything else.
+async function readWavFormat(file: File): Promise<WavFormat | null> {
+  const header = await readBytes(file, 0, 12);
+  if (header.byteLength < 12 || fourCC(header, 0) !== "RIFF" || fourCC(header, 8) !== "WAVE") return null;
+
+  let format: Omit<WavFormat, "dataOffset" | "dataLength"> | null = null;
+  let offset = 12;
+  while (offset + 8 <= file.size) {
+    const chunk = await readBytes(file, offset, 8);
+    const id = fourCC(chunk, 0);
+    const size = chunk.getUint32(4, true);
+
+    if (id === "fmt ") {
+      const fmt = await readBytes(file, offset + 8, Math.min(size, 40));
+      // WAVE_FORMAT_EXTENSIBLE keeps the actual format in its sub-format GUID.
+      const extensible = fmt.getUint16(0, true) === 0xfffe && fmt.byteLength >= 26;
+      const tag = fmt.getUint16(extensible ? 24 : 0, true);
+      const bitsPerSample = fmt.getUint16(14, true);
+      const float = tag === 3;
+      const supported = float
+        ? bitsPerSample === 32 || bitsPerSample === 64
+        : tag === 1 && [8, 16, 24, 32].includes(bitsPerSample);
+      if (!supported) return null;
+      format = { sampleRate: fmt.getUint32(4, true), channelCount: fmt.getUint16(2, true), bitsPerSample, float };
+    } else if (id === "data") {
+      if (!format || format.channelCount === 0) return null;
+      // Recorders that stream to disk may leave the size unset.
+      const available = file.size - offset - 8;
+      const dataLength = size === 0 || size > available ? available : size;
+      return { ...format, dataOffset: offset + 8, dataLength };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function readSample(view: DataView, position: number, { bitsPerSample, float }: WavFormat): number {
+  if (float) return bitsPerSample === 32 ? view.getFloat32(position, true) : view.getFloat64(position, true);
+  switch (bitsPerSample) {
+    case 8:
+      return (view.getUint8(position) - 128) / 128;
+    case 16:
+      return view.getInt16(position, true) / 32768;
+    case 24:
+      return (view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16)) / 8388608;
+    default:
+      return view.getInt32(position, true) / 2147483648;
+  }
+}
+
+function wavStream(file: File, format: WavFormat): AudioStream {
+  const { sampleRate, channelCount, bitsPerSample, dataOffset, dataLength } = format;
+  const sampleBytes = bitsPerSample / 8;
+  const frameBytes = sampleBytes * channelCount;
+  const frameCount = Math.floor(dataLength / frameBytes);
+  const chunkFrames = Math.round(CHUNK_SECONDS * sampleRate);
+
+  const readFrames = async (first: number, frames: number): Promise<Float32Array[]> => {
+    const view = await readBytes(file, dataOffset + first * frameBytes, frames * frameBytes);
+    return Array.from({ length: channelCount }, (_, channel) => {
+      const samples = new Float32Array(frames);
+      for (let f = 0; f < frames; f++) samples[f] = readSample(view, f * frameBytes + channel * sampleBytes, format);
+      return samples;
+    });
+  };
+
+  return {
+    sampleRate,
+    channelCount,
+    duration: frameCount / sampleRate,
+    async *chunks() {
+      for (let first = 0; first < frameCount; first += chunkFrames) {
+        yield readFrames(first, Math.min(chunkFrames, frameCount - first));
+      }
+    },
+    read(region) {
+      // Rounded like regionSamples.
+      const first = Math.min(frameCount, Math.round(region.start * sampleRate));
+      const end = Math.min(frameCount, Math.max(first, Math.round(region.end * sampleRate)));
+      return readFrames(first, end - first);
+    },
+  };
+}
+
+// Opens an uncompressed WAV file for reading in blocks straight from disk.
+// Null for other formats, which the browser can only decode whole.
+export async function openAudioStream(file: File): Promise<AudioStream | null> {
+  const format = await readWavFormat(file);
+  return format ? wavStream(file, format) : null;
+}
+
+// A stream over audio the browser has already decoded, for compressed files
+// that can't be read a block at a time. Blocks are copies, so they can be
+// transferred without detaching the buffer.
+export function bufferStream(audioBuffer: AudioBuffer): AudioStream {
+  const { sampleRate, numberOfChannels: channelCount, length: frameCount } = audioBuffer;
+  const chunkFrames = Math.round(CHUNK_SECONDS * sampleRate);
+
+  const readFrames = (first: number, end: number): Float32Array[] =>
+    Array.from({ length: channelCount }, (_, channel) => audioBuffer.getChannelData(channel).slice(first, end));
+
+  return {
+    sampleRate,
+    channelCount,
+    duration: audioBuffer.duration,
+    async *chunks() {
+      for (let first = 0; first < frameCount; first += chunkFrames) {
+        yield readFrames(first, Math.min(frameCount, first + chunkFrames));
+      }
+    },
+    async read(region) {
+      const first = Math.min(frameCount, Math.round(region.start * sampleRate));
+      const end = Math.min(frameCount, Math.max(first, Math.round(region.end * sampleRate)));
+      return readFrames(first, end);
+    },
+  };
+}
+
+export interface WaveformOverview {
+  duration: number;
+  // Mean level of each of the points, scaled to a peak of 1.
+  peaks: number[];
+}
+
+// What the waveform view draws of a file: its length and the levels of the
+// channel `mode` picks, like extractWaveformData. WAV files are read a block
+// at a time; anything else is decoded whole and only the levels are kept.
+export async function readWaveform(file: File, mode: ChannelMode, points = 200): Promise<WaveformOverview> {
+  const stream = await openAudioStream(file);
+  if (!stream) {
+    const audioBuffer = await decodeAudioFile(file);
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+    return { duration: audioBuffer.duration, peaks: extractWaveformData(selectChannel(channels, mode), points) };
+  }
+
+  const frameCount = Math.round(stream.duration * stream.sampleRate);
+  const sums = new Float64Array(points);
+  const counts = new Float64Array(points);
+  let position = 0;
+  for await (const chunk of stream.chunks()) {
+    const samples = selectChannel(chunk, mode);
+    for (let i = 0; i < samples.length; i++, position++) {
+      const point = Math.min(points - 1, Math.floor((position * points) / frameCount));
+      sums[point] += Math.abs(samples[i]);
+      counts[point]++;
+    }
+  }
+  const levels = Array.from(sums, (sum, i) => (counts[i] > 0 ? sum / counts[i] : 0));
+  const peak = Math.max(...levels);
+  return { duration: stream.duration, peaks: peak > 0 ? levels.map(level => level / peak) : levels };
+}
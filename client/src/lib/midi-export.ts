@@ -71,9 +71,20 @@ function createMidiTrack(events: { delta: number; data: number[] }[]): number[]
 
 interface MidiExportOptions {
   tempo: number;
+  // "6/8" etc. Tempo counts beats of the signature's denominator, as the
+  // analysis tracks them.
+  timeSignature?: string;
+  // Time of the first downbeat in seconds. Everything is shifted so that it
+  // falls on a bar line, leaving a rest before any pickup.
+  firstDownbeat?: number;
   ppq?: number;
   includeChords?: boolean;
   includeMelody?: boolean;
+  includeBass?: boolean;
+  // A4 in Hz the notes were named against.
+  referencePitch?: number;
+  // Encodes the tuning and each note's cents as pitch bend.
+  pitchBend?: boolean;
 }
 
 interface AbsoluteEvent {
@@ -81,22 +92,102 @@ interface AbsoluteEvent {
   data: number[];
 }
 
+// FF 58 time-signature meta event. The metronome clicks once per beat, or
+// per dotted quarter in compound eighth-note meters like 6/8.
+function timeSignatureEvent(numerator: number, denominator: number): { delta: number; data: number[] } {
+  const clocksPerClick = denominator === 8 && numerator % 3 === 0 ? 36 : (24 * 4) / denominator;
+  return {
+    delta: 0,
+    data: [0xFF, 0x58, 0x04, numerator, Math.log2(denominator), clocksPerClick, 0x08]
+  };
+}
+
+function parseTimeSignature(timeSignature: string): [number, number] {
+  const match = timeSignature.match(/^(\d+)\/(\d+)$/);
+  const numerator = match ? parseInt(match[1], 10) : 4;
+  const denominator = match ? parseInt(match[2], 10) : 4;
+  return [
+    numerator >= 1 && numerator <= 32 ? numerator : 4,
+    [2, 4, 8, 16].includes(denominator) ? denominator : 4,
+  ];
+}
+
+// A pitch-wheel event for a deviation in cents, assuming the General MIDI
+// default bend range of two semitones.
+function pitchBendEvent(channel: number, cents: number): number[] {
+  const value = Math.max(0, Math.min(16383, Math.round(8192 + (cents / 200) * 8192)));
+  return [0xE0 | channel, value & 0x7F, (value >> 7) & 0x7F];
+}
+
+function trackNameEvent(name: string): { delta: number; data: number[] } {
+  return {
+    delta: 0,
+    data: [0xFF, 0x03, name.length, ...Array.from(name).map(c => c.charCodeAt(0))]
+  };
+}
+
+// Orders note events by tick, note-offs first so repeated pitches retrigger,
+// and converts them to delta times.
+function toDeltaEvents(absoluteEvents: AbsoluteEvent[]): { delta: number; data: number[] }[] {
+  absoluteEvents.sort((a, b) => {
+    if (a.absoluteTick !== b.absoluteTick) {
+      return a.absoluteTick - b.absoluteTick;
+    }
+    const aIsNoteOff = (a.data[0] & 0xF0) === 0x80;
+    const bIsNoteOff = (b.data[0] & 0xF0) === 0x80;
+    if (aIsNoteOff !== bIsNoteOff) {
+      return aIsNoteOff ? -1 : 1;
+    }
+    return 0;
+  });
+  
+  const deltaEvents: { delta: number; data: number[] }[] = [];
+  let lastTick = 0;
+  
+  for (const event of absoluteEvents) {
+    const delta = event.absoluteTick - lastTick;
+    deltaEvents.push({
+      delta: Math.max(0, delta),
+      data: event.data
+    });
+    lastTick = event.absoluteTick;
+  }
+  
+  return deltaEvents;
+}
+
 export function exportMelodyToMidi(
   melody: Note[],
   chords: Chord[],
+  bass: Note[],
   options: MidiExportOptions
 ): Uint8Array {
-  const { tempo, ppq = 480, includeChords = true, includeMelody = true } = options;
+  const {
+    tempo,
+    timeSignature = "4/4",
+    firstDownbeat = 0,
+    ppq = 480,
+    includeChords = true,
+    includeMelody = true,
+    includeBass = true,
+    referencePitch = 440,
+    pitchBend = false,
+  } = options;
+  const tuningCents = 1200 * Math.log2(referencePitch / 440);
   
-  const ticksPerBeat = ppq;
-  const microsecondsPerBeat = Math.round(60000000 / tempo);
+  // MIDI tempo and ticks are per quarter note; an eighth-note beat is half of one.
+  const [numerator, denominator] = parseTimeSignature(timeSignature);
+  const quartersPerBeat = 4 / denominator;
+  const ticksPerBeat = ppq * quartersPerBeat;
+  const microsecondsPerQuarter = Math.round(60000000 / (tempo * quartersPerBeat));
+  const hasBassTrack = includeBass && bass.length > 0;
   
   const headerChunk = [
     0x4D, 0x54, 0x68, 0x64,
     0x00, 0x00, 0x00, 0x06,
     0x00, 0x01,
-    ...writeInt16BE(2),
-    ...writeInt16BE(ticksPerBeat)
+    ...writeInt16BE(hasBassTrack ? 3 : 2),
+    ...writeInt16BE(ppq)
   ];
   
   const tempoTrackEvents: { delta: number; data: number[] }[] = [
@@ -104,52 +195,64 @@ export function exportMelodyToMidi(
       delta: 0,
       data: [
         0xFF, 0x51, 0x03,
-        (microsecondsPerBeat >> 16) & 0xFF,
-        (microsecondsPerBeat >> 8) & 0xFF,
-        microsecondsPerBeat & 0xFF
+        (microsecondsPerQuarter >> 16) & 0xFF,
+        (microsecondsPerQuarter >> 8) & 0xFF,
+        microsecondsPerQuarter & 0xFF
       ]
     },
-    {
-      delta: 0,
-      data: [0xFF, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08]
-    },
-    {
-      delta: 0,
-      data: [0xFF, 0x03, 0x0B, ...Array.from("Audio Track").map(c => c.charCodeAt(0))]
-    }
+    timeSignatureEvent(numerator, denominator),
+    trackNameEvent("Audio Track")
   ];
   
   const tempoTrack = createMidiTrack(tempoTrackEvents);
   
   const absoluteEvents: AbsoluteEvent[] = [];
   
-  const timeToTicks = (time: number): number => {
-    return Math.round(time * tempo / 60 * ticksPerBeat);
-  };
+  const secondsToTicks = (seconds: number): number => Math.round(seconds * tempo / 60 * ticksPerBeat);
+  const ticksPerBar = numerator * ticksPerBeat;
+  const downbeatTick = secondsToTicks(firstDownbeat);
+  const pickupShift = (ticksPerBar - (downbeatTick % ticksPerBar)) % ticksPerBar;
+  const timeToTicks = (time: number): number => secondsToTicks(time) + pickupShift;
   
-  if (includeMelody && melody.length > 0) {
-    for (const note of melody) {
+  const pushNotes = (notes: Note[], channel: number, target: AbsoluteEvent[]) => {
+    for (const note of notes) {
       const midiNote = noteToMidi(note.note);
       const velocity = Math.round((note.velocity || 0.8) * 127);
       const startTick = timeToTicks(note.time);
-      const durationTicks = Math.max(1, timeToTicks(note.duration || 0.25));
+      const durationTicks = Math.max(1, secondsToTicks(note.duration || 0.25));
+      
+      // The wheel bends the whole channel, so overlapping notes share the
+      // bend of the latest one.
+      if (pitchBend) {
+        target.push({
+          absoluteTick: startTick,
+          data: pitchBendEvent(channel, tuningCents + (note.cents ?? 0))
+        });
+      }
       
-      absoluteEvents.push({
+      target.push({
         absoluteTick: startTick,
-        data: [0x90, midiNote, velocity]
+        data: [0x90 | channel, midiNote, velocity]
       });
       
-      absoluteEvents.push({
+      target.push({
         absoluteTick: startTick + durationTicks,
-        data: [0x80, midiNote, 0]
+        data: [0x80 | channel, midiNote, 0]
       });
     }
+  };
+  
+  if (includeMelody && melody.length > 0) {
+    pushNotes(melody, 0, absoluteEvents);
   }
   
   if (includeChords && chords.length > 0) {
+    if (pitchBend && tuningCents !== 0) {
+      absoluteEvents.push({ absoluteTick: 0, data: pitchBendEvent(1, tuningCents) });
+    }
     for (const chord of chords) {
       const startTick = timeToTicks(chord.time);
-      const durationTicks = Math.max(1, timeToTicks(chord.duration || 1));
+      const durationTicks = Math.max(1, secondsToTicks(chord.duration || 1));
       
       for (const noteStr of chord.notes) {
         const midiNote = noteToMidi(noteStr);
@@ -168,43 +271,29 @@ export function exportMelodyToMidi(
     }
   }
   
-  absoluteEvents.sort((a, b) => {
-    if (a.absoluteTick !== b.absoluteTick) {
-      return a.absoluteTick - b.absoluteTick;
-    }
-    const aIsNoteOff = (a.data[0] & 0xF0) === 0x80;
-    const bIsNoteOff = (b.data[0] & 0xF0) === 0x80;
-    if (aIsNoteOff !== bIsNoteOff) {
-      return aIsNoteOff ? -1 : 1;
-    }
-    return 0;
-  });
+  const noteTrack = createMidiTrack(toDeltaEvents(absoluteEvents));
   
-  const deltaEvents: { delta: number; data: number[] }[] = [];
-  let lastTick = 0;
+  const midiData = [...headerChunk, ...tempoTrack, ...noteTrack];
   
-  for (const event of absoluteEvents) {
-    const delta = event.absoluteTick - lastTick;
-    deltaEvents.push({
-      delta: Math.max(0, delta),
-      data: event.data
-    });
-    lastTick = event.absoluteTick;
+  // The bass gets a track of its own on channel 3 so a DAW can give it its
+  // own instrument.
+  if (hasBassTrack) {
+    const bassEvents: AbsoluteEvent[] = [];
+    pushNotes(bass, 2, bassEvents);
+    midiData.push(...createMidiTrack([trackNameEvent("Bass"), ...toDeltaEvents(bassEvents)]));
   }
   
-  const noteTrack = createMidiTrack(deltaEvents);
-  
-  const midiData = [...headerChunk, ...tempoTrack, ...noteTrack];
   return new Uint8Array(midiData);
 }
 
 export function downloadMidiFile(
   melody: Note[],
   chords: Chord[],
+  bass: Note[],
   options: MidiExportOptions,
   filename: string = "audio-extract.mid"
 ): void {
-  const midiData = exportMelodyToMidi(melody, chords, options);
+  const midiData = exportMelodyToMidi(melody, chords, bass, options);
   const blob = new Blob([midiData], { type: "audio/midi" });
   const url = URL.createObjectURL(blob);
   
@@ -0,0 +1,57 @@
+import { generateStrudelCode, strudelOptionsFromParams } from "@shared/analysis";
+import type { AnalysisResult, Project, SavedAnalysis } from "@shared/schema";
+
+export type AnalysisSummary = Pick<
+  SavedAnalysis,
+  "id" | "fileName" | "detectedKey" | "estimatedTempo" | "duration" | "updatedAt"
+>;
+
+// Shape of GET /api/projects.
+export type ProjectWithAnalyses = Project & { analyses: AnalysisSummary[] };
+
+export function projectNameFromFile(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "") || fileName;
+}
+
+// Rebuilds the in-memory AnalysisResult for a saved transcription. Strudel code
+// is not stored, so it is regenerated from the (possibly edited) notes.
+export function savedAnalysisToResult(saved: SavedAnalysis): AnalysisResult {
+  const tempo = saved.estimatedTempo ?? saved.params.targetTempo;
+  const timeSignature = saved.timeSignature ?? saved.params.timeSignature;
+  return {
+    melody: saved.melody,
+    chords: saved.chords,
+    bass: saved.bass ?? undefined,
+    drums: saved.drums ?? undefined,
+    strudelCode: generateStrudelCode(
+      saved.melody,
+      saved.chords,
+      tempo,
+      timeSignature,
+      saved.beats,
+      {
+        ...strudelOptionsFromParams(saved.params, saved.detectedKey ?? undefined, saved.groove ?? undefined),
+        keySegments: saved.keySegments ?? undefined,
+        bass: saved.bass ?? undefined,
+        drums: saved.drums ?? undefined,
+        downbeats: saved.downbeats ?? undefined,
+        channelLayers: saved.channelLayers ?? undefined,
+      }
+    ),
+    duration: saved.duration,
+    sampleRate: saved.sampleRate,
+    detectedKey: saved.detectedKey ?? undefined,
+    keySegments: saved.keySegments ?? undefined,
+    keyCandidates: saved.keyCandidates ?? undefined,
+    estimatedTempo: saved.estimatedTempo ?? undefined,
+    timeSignature,
+    groove: saved.groove ?? undefined,
+    referencePitch: saved.referencePitch ?? undefined,
+    channel: saved.channel ?? undefined,
+    channelLayers: saved.channelLayers ?? undefined,
+    region: saved.region ?? undefined,
+    beats: saved.beats,
+    downbeats: saved.downbeats ?? undefined,
+    waveformData: saved.waveformData ?? undefined,
+  };
+}
@@ -0,0 +1,35 @@
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+// Renders `component` for signed-in users; everyone else is sent to /login,
+// which returns them here afterwards.
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: ComponentType;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {() => {
+        if (isLoading) {
+          return (
+            <div className="min-h-screen flex items-center justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          );
+        }
+        if (!user) {
+          const next = encodeURIComponent(window.location.pathname);
+          return <Redirect to={`/login?next=${next}`} />;
+        }
+        return <Component />;
+      }}
+    </Route>
+  );
+}
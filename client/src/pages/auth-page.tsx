@@ -0,0 +1,127 @@
+import { Link, Redirect, useSearch } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Music, Loader2, LogIn, UserPlus } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { insertUserSchema, type InsertUser } from "@shared/schema";
+
+interface AuthPageProps {
+  mode: "login" | "register";
+}
+
+// Only same-origin paths are honoured so ?next= can't bounce users off-site.
+function safeNext(search: string): string {
+  const next = new URLSearchParams(search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/projects";
+}
+
+export default function AuthPage({ mode }: AuthPageProps) {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const search = useSearch();
+  const next = safeNext(search);
+  const isLogin = mode === "login";
+  const mutation = isLogin ? loginMutation : registerMutation;
+
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  if (user) {
+    return <Redirect to={next} />;
+  }
+
+  const otherHref = `${isLogin ? "/register" : "/login"}${search ? `?${search}` : ""}`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-primary/5 to-secondary/5 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md p-8">
+        <div className="flex flex-col items-center text-center mb-6">
+          <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center mb-4">
+            <Music className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground" data-testid="text-auth-title">
+            {isLogin ? "Log in" : "Create an account"}
+          </h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            {isLogin
+              ? "Log in to open your saved projects"
+              : "Sign up to save transcriptions and keep editing them later"}
+          </p>
+        </div>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => mutation.mutate(values))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="username" {...field} data-testid="input-username" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      autoComplete={isLogin ? "current-password" : "new-password"}
+                      {...field}
+                      data-testid="input-password"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="submit"
+              className="w-full gap-2"
+              disabled={mutation.isPending}
+              data-testid={isLogin ? "button-login" : "button-register"}
+            >
+              {mutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : isLogin ? (
+                <LogIn className="w-4 h-4" />
+              ) : (
+                <UserPlus className="w-4 h-4" />
+              )}
+              {isLogin ? "Log in" : "Sign up"}
+            </Button>
+          </form>
+        </Form>
+
+        <p className="text-sm text-muted-foreground text-center mt-6">
+          {isLogin ? "No account yet? " : "Already have an account? "}
+          <Link href={otherHref} className="text-primary hover:underline" data-testid="link-switch-auth">
+            {isLogin ? "Sign up" : "Log in"}
+          </Link>
+        </p>
+      </Card>
+    </div>
+  );
+}
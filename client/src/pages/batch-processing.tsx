@@ -13,396 +13,40 @@ import {
 } from "lucide-react";
 import { BatchUploader, type BatchFile } from "@/components/batch-uploader";
 import { BatchResults, type BatchResult } from "@/components/batch-results";
-import { AnalysisParameters, defaultAnalysisParams, type AnalysisParams } from "@/components/analysis-parameters";
-import type { Note, Chord } from "@shared/schema";
-
-function detectPitch(frame: Float32Array, sampleRate: number): number {
-  const minFreq = 80;
-  const maxFreq = 1000;
-  const minPeriod = Math.floor(sampleRate / maxFreq);
-  const maxPeriod = Math.floor(sampleRate / minFreq);
-
-  let bestCorrelation = 0;
-  let bestPeriod = 0;
-
-  for (let period = minPeriod; period < maxPeriod && period < frame.length / 2; period++) {
-    let correlation = 0;
-    for (let i = 0; i < frame.length - period; i++) {
-      correlation += frame[i] * frame[i + period];
-    }
-    if (correlation > bestCorrelation) {
-      bestCorrelation = correlation;
-      bestPeriod = period;
-    }
-  }
-
-  if (bestPeriod === 0) return 0;
-  return sampleRate / bestPeriod;
-}
-
-function frequencyToNote(frequency: number): string {
-  if (frequency <= 0) return "";
-  
-  const noteNames = ["c", "cs", "d", "ds", "e", "f", "fs", "g", "gs", "a", "as", "b"];
-  const a4 = 440;
-  const halfStepsFromA4 = 12 * Math.log2(frequency / a4);
-  const noteIndex = Math.round(halfStepsFromA4) + 57;
-  
-  if (noteIndex < 0 || noteIndex > 127) return "";
-  
-  const octave = Math.floor(noteIndex / 12);
-  const noteNameIndex = noteIndex % 12;
-  
-  return `${noteNames[noteNameIndex]}${octave}`;
-}
-
-const KEY_PROFILES = {
-  major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
-  minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17]
-};
-
-function detectKey(notes: Note[]): string {
-  const noteNames = ["c", "cs", "d", "ds", "e", "f", "fs", "g", "gs", "a", "as", "b"];
-  const chromaCounts = new Array(12).fill(0);
-  
-  for (const note of notes) {
-    const noteMatch = note.note.match(/^([a-gs]+)(\d+)$/);
-    if (noteMatch) {
-      const noteIndex = noteNames.indexOf(noteMatch[1].toLowerCase());
-      if (noteIndex >= 0) {
-        chromaCounts[noteIndex] += (note.duration || 0.25) * (note.velocity || 0.8);
-      }
-    }
-  }
-  
-  let bestKey = "C";
-  let bestCorrelation = -Infinity;
-  
-  for (let i = 0; i < 12; i++) {
-    const rotatedCounts = [...chromaCounts.slice(i), ...chromaCounts.slice(0, i)];
-    
-    let majorCorr = 0;
-    let minorCorr = 0;
-    
-    for (let j = 0; j < 12; j++) {
-      majorCorr += rotatedCounts[j] * KEY_PROFILES.major[j];
-      minorCorr += rotatedCounts[j] * KEY_PROFILES.minor[j];
-    }
-    
-    if (majorCorr > bestCorrelation) {
-      bestCorrelation = majorCorr;
-      bestKey = noteNames[i].toUpperCase().replace("S", "#");
-    }
-    if (minorCorr > bestCorrelation) {
-      bestCorrelation = minorCorr;
-      bestKey = noteNames[i].toUpperCase().replace("S", "#") + "m";
-    }
-  }
-  
-  return bestKey;
-}
-
-function detectTempo(audioBuffer: AudioBuffer): number {
-  const channelData = audioBuffer.getChannelData(0);
-  const sampleRate = audioBuffer.sampleRate;
-  const windowSize = Math.floor(sampleRate * 0.05);
-  
-  const energyValues: number[] = [];
-  for (let i = 0; i < channelData.length - windowSize; i += windowSize) {
-    let energy = 0;
-    for (let j = 0; j < windowSize; j++) {
-      energy += channelData[i + j] * channelData[i + j];
-    }
-    energyValues.push(energy);
-  }
-  
-  const onsets: number[] = [];
-  for (let i = 1; i < energyValues.length; i++) {
-    if (energyValues[i] > energyValues[i - 1] * 1.5 && energyValues[i] > 0.01) {
-      onsets.push(i * windowSize / sampleRate);
-    }
-  }
-  
-  if (onsets.length < 2) return 120;
-  
-  const intervals: number[] = [];
-  for (let i = 1; i < onsets.length; i++) {
-    intervals.push(onsets[i] - onsets[i - 1]);
-  }
-  
-  const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
-  let tempo = 60 / avgInterval;
-  
-  while (tempo < 60) tempo *= 2;
-  while (tempo > 200) tempo /= 2;
-  
-  return Math.round(tempo);
-}
-
-function generateChords(notes: Note[], key: string): Chord[] {
-  if (notes.length < 4) return [];
-  
-  const chordIntervals: Record<string, number[]> = {
-    "maj": [0, 4, 7],
-    "min": [0, 3, 7],
-    "dim": [0, 3, 6],
-    "aug": [0, 4, 8],
-    "sus2": [0, 2, 7],
-    "sus4": [0, 5, 7],
-  };
-  
-  const noteNames = ["c", "cs", "d", "ds", "e", "f", "fs", "g", "gs", "a", "as", "b"];
-  const chordProgressions: Record<string, string[]> = {
-    "C": ["C", "Am", "F", "G"],
-    "G": ["G", "Em", "C", "D"],
-    "D": ["D", "Bm", "G", "A"],
-    "A": ["A", "F#m", "D", "E"],
-    "E": ["E", "C#m", "A", "B"],
-    "F": ["F", "Dm", "Bb", "C"],
-    "Cm": ["Cm", "Ab", "Eb", "G"],
-    "Am": ["Am", "F", "C", "G"],
-    "Em": ["Em", "C", "G", "D"],
-    "Dm": ["Dm", "Bb", "F", "C"],
-  };
-  
-  const progression = chordProgressions[key] || chordProgressions["C"];
-  const chords: Chord[] = [];
-  const duration = notes[notes.length - 1].time + (notes[notes.length - 1].duration || 0.25);
-  const chordDuration = duration / progression.length;
-  
-  for (let i = 0; i < progression.length; i++) {
-    const chordName = progression[i];
-    const isMinor = chordName.includes("m") && !chordName.includes("maj");
-    const rootNote = chordName.replace(/m$/, "").replace("#", "s").toLowerCase();
-    const rootIndex = noteNames.indexOf(rootNote);
-    
-    if (rootIndex >= 0) {
-      const intervals = isMinor ? chordIntervals.min : chordIntervals.maj;
-      const chordNotes = intervals.map(interval => {
-        const noteIndex = (rootIndex + interval) % 12;
-        return `${noteNames[noteIndex]}4`;
-      });
-      
-      chords.push({
-        notes: chordNotes,
-        name: chordName,
-        time: i * chordDuration,
-        duration: chordDuration
-      });
-    }
-  }
-  
-  return chords;
-}
-
-function formatNoteForStrudel(note: string): string {
-  const match = note.match(/^([A-Ga-g])([#b]?)(\d+)$/);
-  if (!match) return note.toLowerCase();
-  const [, noteName, accidental, octave] = match;
-  const strudelAccidental = accidental === '#' ? 's' : accidental === 'b' ? 'f' : '';
-  return `${noteName.toLowerCase()}${strudelAccidental}${octave}`;
-}
-
-function generateStrudelCode(notes: Note[], chords: Chord[], tempo: number = 120, timeSignature: string = "4/4"): { melody: string; chords: string; combined: string } {
-  const [beatsPerBar, noteValue] = timeSignature.split("/").map(Number);
-  const beatDuration = (60 / tempo) * (4 / noteValue);
-  
-  // Generate melody with duration notation
-  const melodyWithDuration = notes.map(note => {
-    const formatted = formatNoteForStrudel(note.note);
-    if (!note.duration) return formatted;
-    
-    const durationBeats = note.duration / beatDuration;
-    if (Math.abs(durationBeats - 0.5) < 0.1) return `${formatted}*0.5`;
-    if (Math.abs(durationBeats - 1) < 0.1) return formatted;
-    if (Math.abs(durationBeats - 2) < 0.1) return `${formatted}*2`;
-    if (Math.abs(durationBeats - 4) < 0.1) return `${formatted}*4`;
-    
-    return formatted;
-  }).join(" ");
-  
-  const melodyCode = melodyWithDuration
-    ? `note("${melodyWithDuration}").sound("piano")`
-    : `note("~").sound("piano")`;
-  
-  // Generate chords with timing
-  const chordWithDuration = chords.map(chord => {
-    const chordNotes = chord.notes.map(n => formatNoteForStrudel(n)).join(",");
-    const formatted = `[${chordNotes}]`;
-    if (!chord.duration) return formatted;
-    
-    const durationBeats = chord.duration / beatDuration;
-    if (Math.abs(durationBeats - 0.5) < 0.1) return `${formatted}*0.5`;
-    if (Math.abs(durationBeats - 1) < 0.1) return formatted;
-    if (Math.abs(durationBeats - 2) < 0.1) return `${formatted}*2`;
-    if (Math.abs(durationBeats - 4) < 0.1) return `${formatted}*4`;
-    
-    return formatted;
-  }).join(" ");
-  
-  const chordCode = chordWithDuration
-    ? `note("${chordWithDuration}").sound("piano")`
-    : `note("~").sound("piano")`;
-  
-  const combined = `// Tempo: ${tempo} BPM, Time Signature: ${timeSignature}\nstack(\n  ${melodyCode},\n  ${chordCode}\n).cpm(${Math.round(tempo / 4)})`;
-  
-  return {
-    melody: melodyCode,
-    chords: chordCode,
-    combined
-  };
-}
-
-interface BatchAnalysisResult {
-  detectedNotes: number;
-  chordChanges: number;
-  detectedKey: string;
-  estimatedTempo: number;
-  duration: number;
-  waveformData: number[];
-}
+import { AnalysisParameters } from "@/components/analysis-parameters";
+import { analyzeFile } from "@/lib/analysis-worker";
+import { AnalysisAbortedError } from "@shared/analysis";
+import { defaultAnalysisParams, type AnalysisParams } from "@shared/schema";
 
 async function analyzeAudioFile(
   file: File, 
   params: AnalysisParams,
-  onProgress: (progress: number) => void
-): Promise<{ 
-  notes: Note[]; 
-  chords: Chord[]; 
-  result: BatchAnalysisResult;
-  strudelCode: { melody: string; chords: string; combined: string };
-}> {
+  onProgress: (progress: number) => void,
+  signal: AbortSignal
+): Promise<Omit<BatchResult, "id" | "fileName">> {
   onProgress(10);
   
-  const arrayBuffer = await file.arrayBuffer();
-  const audioContext = new AudioContext();
-  const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-  
-  onProgress(30);
-  
-  const channelData = audioBuffer.getChannelData(0);
-  const sampleRate = audioBuffer.sampleRate;
-  
-  const frameSize = 2048;
-  const hopSize = 512;
-  const notes: Note[] = [];
-  
-  const minAmplitude = (100 - params.pitchSensitivity) / 1000;
-  const minNoteDurationSec = params.minNoteDuration / 1000;
-  
-  let lastNote = "";
-  let noteStartTime = 0;
-  
-  const totalFrames = Math.floor((channelData.length - frameSize) / hopSize);
-  
-  for (let i = 0; i < channelData.length - frameSize; i += hopSize) {
-    const frame = channelData.slice(i, i + frameSize);
-    
-    let rms = 0;
-    for (let j = 0; j < frame.length; j++) {
-      rms += frame[j] * frame[j];
-    }
-    rms = Math.sqrt(rms / frame.length);
-    
-    const currentFrame = Math.floor(i / hopSize);
-    onProgress(30 + Math.floor((currentFrame / totalFrames) * 40));
-    
-    if (rms < minAmplitude) {
-      if (lastNote) {
-        const duration = (i / sampleRate) - noteStartTime;
-        if (duration >= minNoteDurationSec) {
-          notes.push({
-            note: lastNote,
-            time: noteStartTime,
-            duration: duration,
-            velocity: Math.min(1, rms * 10)
-          });
-        }
-        lastNote = "";
-      }
-      continue;
-    }
-    
-    const frequency = detectPitch(frame, sampleRate);
-    if (frequency < 80 || frequency > 2000) {
-      continue;
-    }
-    
-    const note = frequencyToNote(frequency);
-    
-    if (note !== lastNote) {
-      if (lastNote) {
-        const duration = (i / sampleRate) - noteStartTime;
-        if (duration >= minNoteDurationSec) {
-          notes.push({
-            note: lastNote,
-            time: noteStartTime,
-            duration: duration,
-            velocity: Math.min(1, rms * 10)
-          });
-        }
-      }
-      lastNote = note;
-      noteStartTime = i / sampleRate;
-    }
-  }
-  
-  if (lastNote) {
-    const duration = audioBuffer.duration - noteStartTime;
-    if (duration >= minNoteDurationSec) {
-      notes.push({
-        note: lastNote,
-        time: noteStartTime,
-        duration: duration,
-        velocity: 0.8
-      });
-    }
-  }
-  
-  onProgress(75);
-  
-  const detectedKey = params.autoDetectKey ? detectKey(notes) : params.targetKey;
-  const estimatedTempo = params.autoDetectTempo ? detectTempo(audioBuffer) : params.targetTempo;
-  
-  onProgress(85);
-  
-  const chords = generateChords(notes, detectedKey);
-  
-  onProgress(95);
-  
-  const strudelCode = generateStrudelCode(notes, chords);
-  
-  const waveformData: number[] = [];
-  const waveformSamples = 200;
-  const samplesPerPoint = Math.floor(channelData.length / waveformSamples);
-  
-  for (let i = 0; i < waveformSamples; i++) {
-    let sum = 0;
-    for (let j = 0; j < samplesPerPoint; j++) {
-      const index = i * samplesPerPoint + j;
-      if (index < channelData.length) {
-        sum += Math.abs(channelData[index]);
-      }
-    }
-    waveformData.push(sum / samplesPerPoint);
-  }
-  
-  await audioContext.close();
+  const analysis = await analyzeFile(file, params, {
+    onProgress: status => onProgress(status.progress),
+    signal,
+  });
   
   onProgress(100);
   
   return {
-    notes,
-    chords,
+    notes: analysis.melody,
+    chords: analysis.chords,
+    bass: analysis.bass,
     result: {
-      detectedNotes: notes.length,
-      chordChanges: chords.length,
-      detectedKey,
-      estimatedTempo,
-      duration: audioBuffer.duration,
-      waveformData
+      detectedNotes: analysis.melody.length,
+      chordChanges: analysis.chords.length,
+      detectedKey: analysis.detectedKey || params.targetKey,
+      estimatedTempo: analysis.estimatedTempo || params.targetTempo,
+      timeSignature: analysis.timeSignature ?? params.timeSignature,
+      duration: analysis.duration,
+      waveformData: analysis.waveformData || []
     },
-    strudelCode
+    strudelCode: analysis.strudelCode
   };
 }
 
@@ -412,6 +56,7 @@ export default function BatchProcessing() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [params, setParams] = useState<AnalysisParams>(defaultAnalysisParams);
   const processingRef = useRef<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
   
   const handleFilesSelect = useCallback((newFiles: File[]) => {
     const batchFiles: BatchFile[] = newFiles.map((file, index) => ({
@@ -452,8 +97,11 @@ export default function BatchProcessing() {
           : f
       ));
       
+      const controller = new AbortController();
+      abortRef.current = controller;
+      
       try {
-        const { notes, chords, result, strudelCode } = await analyzeAudioFile(
+        const { notes, chords, bass, result, strudelCode } = await analyzeAudioFile(
           batchFile.file,
           params,
           (progress) => {
@@ -462,7 +110,8 @@ export default function BatchProcessing() {
                 ? { ...f, progress }
                 : f
             ));
-          }
+          },
+          controller.signal
         );
         
         setFiles(prev => prev.map(f =>
@@ -477,10 +126,21 @@ export default function BatchProcessing() {
           result,
           notes,
           chords,
+          bass,
           strudelCode
         }]);
         
       } catch (error) {
+        if (error instanceof AnalysisAbortedError) {
+          // Stopped mid-file: put it back in the queue so it can be processed later.
+          setFiles(prev => prev.map(f =>
+            f.id === batchFile.id
+              ? { ...f, status: "pending" as const, progress: 0 }
+              : f
+          ));
+          break;
+        }
+        
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         
         setFiles(prev => prev.map(f =>
@@ -497,12 +157,14 @@ export default function BatchProcessing() {
       }
     }
     
+    abortRef.current = null;
     setIsProcessing(false);
     processingRef.current = false;
   }, [files, isProcessing, params]);
   
   const stopProcessing = useCallback(() => {
     processingRef.current = false;
+    abortRef.current?.abort();
   }, []);
   
   const resetAll = useCallback(() => {
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Music,
+  FileAudio,
+  FolderOpen,
+  Trash2,
+  Pencil,
+  Check,
+  X,
+  Loader2,
+  AlertCircle,
+  LogOut,
+} from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ProjectWithAnalyses } from "@/lib/projects";
+
+function formatDuration(seconds: number) {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function ProjectCard({ project }: { project: ProjectWithAnalyses }) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(project.name);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  const onError = (err: Error) => {
+    toast({ title: "Something went wrong", description: err.message, variant: "destructive" });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: (newName: string) => apiRequest("PATCH", `/api/projects/${project.id}`, { name: newName }),
+    onSuccess: () => {
+      setEditing(false);
+      invalidate();
+    },
+    onError,
+  });
+
+  const deleteProjectMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/projects/${project.id}`),
+    onSuccess: () => {
+      toast({ title: "Project deleted", description: project.name });
+      invalidate();
+    },
+    onError,
+  });
+
+  const deleteAnalysisMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/analyses/${id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return (
+    <Card className="p-4" data-testid={`card-project-${project.id}`}>
+      <div className="flex items-center justify-between gap-4 mb-3">
+        {editing ? (
+          <form
+            className="flex items-center gap-2 flex-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) renameMutation.mutate(name.trim());
+            }}
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              data-testid="input-project-name"
+            />
+            <Button type="submit" size="icon" variant="ghost" disabled={renameMutation.isPending}>
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              onClick={() => {
+                setName(project.name);
+                setEditing(false);
+              }}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </form>
+        ) : (
+          <div className="flex items-center gap-2 min-w-0">
+            <FolderOpen className="w-5 h-5 text-primary flex-shrink-0" />
+            <h3 className="font-semibold text-foreground truncate" data-testid="text-project-name">
+              {project.name}
+            </h3>
+            <span className="text-xs text-muted-foreground">
+              {new Date(project.updatedAt).toLocaleString()}
+            </span>
+          </div>
+        )}
+
+        {!editing && (
+          <div className="flex items-center gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setEditing(true)}
+              data-testid="button-rename-project"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => deleteProjectMutation.mutate()}
+              disabled={deleteProjectMutation.isPending}
+              data-testid="button-delete-project"
+            >
+              <Trash2 className="w-4 h-4 text-destructive" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {project.analyses.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved transcriptions</p>
+      ) : (
+        <ul className="space-y-2">
+          {project.analyses.map((analysis) => (
+            <li
+              key={analysis.id}
+              className="flex items-center justify-between gap-3 p-2 rounded-lg bg-muted/30"
+            >
+              <Link
+                href={`/analyses/${analysis.id}`}
+                className="flex items-center gap-2 min-w-0 hover:underline"
+                data-testid={`link-analysis-${analysis.id}`}
+              >
+                <FileAudio className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-sm text-foreground truncate">{analysis.fileName}</span>
+              </Link>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {analysis.detectedKey && <Badge variant="secondary">{analysis.detectedKey}</Badge>}
+                {analysis.estimatedTempo && (
+                  <Badge variant="outline">{Math.round(analysis.estimatedTempo)} BPM</Badge>
+                )}
+                <span className="text-xs font-mono text-muted-foreground">
+                  {formatDuration(analysis.duration)}
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteAnalysisMutation.mutate(analysis.id)}
+                  disabled={deleteAnalysisMutation.isPending}
+                  data-testid={`button-delete-analysis-${analysis.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+export default function Projects() {
+  const { user, logoutMutation } = useAuth();
+  const { data: projects, isLoading, error } = useQuery<ProjectWithAnalyses[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <header className="text-center mb-8">
+          <div className="flex items-center justify-center gap-3 mb-4">
+            <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center">
+              <Music className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-3xl font-bold text-foreground">My Projects</h1>
+          </div>
+          <p className="text-muted-foreground max-w-2xl mx-auto mb-4">
+            Reopen a saved transcription to keep editing its notes and chords
+          </p>
+          <div className="flex items-center justify-center gap-2 flex-wrap">
+            <Link href="/" asChild>
+              <Button variant="outline" className="gap-2" data-testid="link-single-file">
+                <FileAudio className="w-4 h-4" />
+                Analyze a New File
+              </Button>
+            </Link>
+            <Button
+              variant="ghost"
+              className="gap-2"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+            >
+              <LogOut className="w-4 h-4" />
+              Log out {user?.username}
+            </Button>
+          </div>
+        </header>
+
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading projects...
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="w-4 h-4" />
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {projects && projects.length === 0 && (
+          <Card className="p-8 text-center text-muted-foreground" data-testid="text-no-projects">
+            No saved projects yet. Analyze a file and choose "Save to Projects".
+          </Card>
+        )}
+
+        {projects && projects.length > 0 && (
+          <div className="space-y-4">
+            {projects.map((project) => (
+              <ProjectCard key={project.id} project={project} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { Link, useLocation, useRoute } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Music, AlertCircle, Loader2, GitFork, FileAudio, ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { NoteTimeline } from "@/components/note-timeline";
+import { PatternPlayer } from "@/components/pattern-player";
+import { CodeOutputCard } from "@/components/code-output-card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SavedAnalysis, Share } from "@shared/schema";
+
+// Read-only view of a shared snapshot. Editing happens on a fork.
+export default function SharedPattern() {
+  const [, params] = useRoute("/s/:slug");
+  const slug = params?.slug ?? "";
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data: share, isLoading, error } = useQuery<Share>({
+    queryKey: ["/api/shares", slug],
+    enabled: slug !== "",
+  });
+
+  const forkMutation = useMutation({
+    mutationFn: async (): Promise<SavedAnalysis> => {
+      const res = await apiRequest("POST", `/api/shares/${slug}/fork`);
+      return res.json();
+    },
+    onSuccess: (analysis) => {
+      queryClient.setQueryData(["/api/analyses", analysis.id], analysis);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({ title: "Forked", description: `${analysis.fileName} added to your projects` });
+      navigate(`/analyses/${analysis.id}`);
+    },
+    onError: (err: Error) => {
+      toast({ title: "Fork failed", description: err.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-primary/5 to-secondary/5">
+      <div className="max-w-5xl mx-auto px-4 py-12 sm:px-6 lg:px-8">
+        <header className="text-center mb-10">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-primary to-secondary mb-4">
+            <Music className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <h1 className="text-4xl font-bold text-foreground mb-3" data-testid="text-share-title">
+            {share?.title ?? "Shared Pattern"}
+          </h1>
+          {share && (
+            <div className="flex items-center justify-center gap-2 flex-wrap mb-4">
+              {share.detectedKey && <Badge variant="secondary">{share.detectedKey}</Badge>}
+              <Badge variant="outline">{Math.round(share.tempo)} BPM</Badge>
+              <Badge variant="outline">{share.timeSignature}</Badge>
+            </div>
+          )}
+          <div className="flex items-center justify-center gap-2 flex-wrap">
+            <Link href="/" asChild>
+              <Button variant="outline" className="gap-2" data-testid="link-single-file">
+                <FileAudio className="w-4 h-4" />
+                Analyze Your Own File
+              </Button>
+            </Link>
+            {share &&
+              (user ? (
+                <Button
+                  className="gap-2"
+                  onClick={() => forkMutation.mutate()}
+                  disabled={forkMutation.isPending}
+                  data-testid="button-fork"
+                >
+                  {forkMutation.isPending ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <GitFork className="w-4 h-4" />
+                  )}
+                  Fork into My Projects
+                </Button>
+              ) : (
+                <Link href={`/login?next=${encodeURIComponent(`/s/${slug}`)}`} asChild>
+                  <Button className="gap-2" data-testid="link-login-to-fork">
+                    <GitFork className="w-4 h-4" />
+                    Log in to Fork
+                  </Button>
+                </Link>
+              ))}
+          </div>
+        </header>
+
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading shared pattern...
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="w-4 h-4" />
+            <AlertDescription data-testid="text-share-error">
+              Could not open this pattern: {error.message}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {share && (
+          <div className="space-y-8">
+            <section>
+              <h2 className="text-lg font-semibold text-foreground mb-4">Note Timeline</h2>
+              <NoteTimeline
+                melody={share.melody}
+                chords={share.chords}
+                bass={share.bass ?? undefined}
+                duration={share.duration}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-lg font-semibold text-foreground mb-4">Preview Pattern</h2>
+              <PatternPlayer
+                melody={share.melody}
+                chords={share.chords}
+                tempo={share.tempo}
+                detectedKey={share.detectedKey ?? undefined}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-lg font-semibold text-foreground mb-4">Strudel Code</h2>
+              <div className="space-y-4">
+                <CodeOutputCard
+                  title="Melody"
+                  code={share.strudelCode.melody}
+                  colorClass="bg-chart-1"
+                  description="Single note melody pattern"
+                />
+                <CodeOutputCard
+                  title="Chords"
+                  code={share.strudelCode.chords}
+                  colorClass="bg-chart-2"
+                  description="Chord progression pattern"
+                />
+                {share.bass && share.bass.length > 0 && (
+                  <CodeOutputCard
+                    title="Bass"
+                    code={share.strudelCode.bass}
+                    colorClass="bg-chart-4"
+                    description="Bass line from the low register"
+                  />
+                )}
+                {share.drums && share.drums.length > 0 && (
+                  <CodeOutputCard
+                    title="Drums"
+                    code={share.strudelCode.drums}
+                    colorClass="bg-chart-3"
+                    description="Kick, snare and hi-hat pattern"
+                  />
+                )}
+                <CodeOutputCard
+                  title="Combined Stack"
+                  code={share.strudelCode.combined}
+                  colorClass="bg-gradient-to-r from-primary to-secondary"
+                  defaultExpanded
+                  description="Full arrangement with melody and chords"
+                />
+              </div>
+            </section>
+
+            <section className="flex justify-center">
+              <Button variant="default" size="lg" asChild className="gap-2">
+                <a href="https://strudel.cc/" target="_blank" rel="noopener noreferrer" data-testid="link-strudel">
+                  <ExternalLink className="w-4 h-4" />
+                  Open Strudel REPL
+                </a>
+              </Button>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
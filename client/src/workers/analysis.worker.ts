@@ -0,0 +1,120 @@
+import {
+  analyzeChannels,
+  analyzeStream,
+  applyKey,
+  selectChannel,
+  AnalysisAbortedError,
+  type StreamPartial,
+} from "@shared/analysis";
+import type { AnalysisParams, AnalysisResult, ProcessingStatus } from "@shared/schema";
+
+export type AnalysisWorkerRequest =
+  | { type: "analyze"; id: number; channels: Float32Array[]; sampleRate: number; params: AnalysisParams }
+  | { type: "applyKey"; id: number; channels: Float32Array[]; result: AnalysisResult; key: string; params: AnalysisParams }
+  | { type: "stream"; id: number; sampleRate: number; duration: number; params: AnalysisParams }
+  | { type: "chunk"; id: number; channels: Float32Array[] }
+  | { type: "end"; id: number }
+  | { type: "abort"; id: number };
+
+export type AnalysisWorkerResponse =
+  | { type: "progress"; id: number; status: ProcessingStatus }
+  | { type: "partial"; id: number; partial: StreamPartial }
+  // Asks for the next block of a streamed analysis.
+  | { type: "ready"; id: number }
+  | { type: "result"; id: number; result: AnalysisResult }
+  | { type: "aborted"; id: number }
+  | { type: "error"; id: number; message: string };
+
+// The project only type-checks against the DOM lib, where `self` is a Window.
+const ctx = self as unknown as Worker;
+const controllers = new Map<number, AbortController>();
+// Feeds blocks of a streamed analysis to it; null ends the stream.
+const streams = new Map<number, (channels: Float32Array[] | null) => void>();
+
+function post(message: AnalysisWorkerResponse) {
+  ctx.postMessage(message);
+}
+
+// Blocks of stream `id` as they arrive. Each one is asked for only once the
+// analysis wants it, so no more than one waits here at a time.
+async function* receiveChunks(id: number): AsyncGenerator<Float32Array[]> {
+  const waiting: (Float32Array[] | null)[] = [];
+  let wake: (() => void) | null = null;
+  streams.set(id, channels => {
+    waiting.push(channels);
+    wake?.();
+  });
+
+  try {
+    while (true) {
+      if (waiting.length === 0) {
+        post({ type: "ready", id });
+        await new Promise<void>(resolve => { wake = resolve; });
+        wake = null;
+      }
+      const channels = waiting.shift();
+      if (!channels) return;
+      yield channels;
+    }
+  } finally {
+    streams.delete(id);
+  }
+}
+
+ctx.onmessage = async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === "abort") {
+    controllers.get(request.id)?.abort();
+    streams.get(request.id)?.(null);
+    return;
+  }
+
+  if (request.type === "chunk" || request.type === "end") {
+    streams.get(request.id)?.(request.type === "chunk" ? request.channels : null);
+    return;
+  }
+
+  if (request.type === "applyKey") {
+    try {
+      const samples = selectChannel(request.channels, request.params.channelMode);
+      const result = applyKey(request.result, request.key, request.params, samples);
+      post({ type: "result", id: request.id, result });
+    } catch (error) {
+      post({ type: "error", id: request.id, message: error instanceof Error ? error.message : "Unknown error" });
+    }
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+
+  try {
+    const onProgress = (status: ProcessingStatus) => post({ type: "progress", id: request.id, status });
+    const result = request.type === "stream"
+      ? await analyzeStream(receiveChunks(request.id), request.sampleRate, request.params, {
+          duration: request.duration,
+          signal: controller.signal,
+          onProgress,
+          onPartial: partial => post({ type: "partial", id: request.id, partial }),
+        })
+      : await analyzeChannels(request.channels, request.sampleRate, request.params, {
+          signal: controller.signal,
+          onProgress,
+        });
+    post({ type: "result", id: request.id, result });
+  } catch (error) {
+    // A cancelled stream ends early, which can surface as another error.
+    if (error instanceof AnalysisAbortedError || controller.signal.aborted) {
+      post({ type: "aborted", id: request.id });
+    } else {
+      post({
+        type: "error",
+        id: request.id,
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  } finally {
+    controllers.delete(request.id);
+  }
+};
@@ -47,11 +47,16 @@ async function buildAll() {
   const externals = allDeps.filter((dep) => !allowlist.includes(dep));
 
   await esbuild({
-    entryPoints: ["server/index.ts"],
+    // The analysis worker runs in its own thread, so it needs its own bundle.
+    entryPoints: {
+      index: "server/index.ts",
+      "analysis-worker": "server/analysis-worker.ts",
+    },
     platform: "node",
     bundle: true,
     format: "cjs",
-    outfile: "dist/index.cjs",
+    outdir: "dist",
+    outExtension: { ".js": ".cjs" },
     define: {
       "process.env.NODE_ENV": '"production"',
     },
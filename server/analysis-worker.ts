@@ -0,0 +1,45 @@
+import { parentPort } from "worker_threads";
+import { analyzeChannels } from "@shared/analysis";
+import type { AnalysisParams, AnalysisResult, ProcessingStatus } from "@shared/schema";
+import { AudioDecodeError, decodeAudio } from "./audio";
+
+// Worker-thread entry for the job queue: decodes and analyzes one upload at a
+// time so long files never block the HTTP event loop.
+
+export interface WorkerJobRequest {
+  jobId: string;
+  audio: Uint8Array;
+  params: AnalysisParams;
+}
+
+export type WorkerJobResponse =
+  | { type: "progress"; jobId: string; status: ProcessingStatus }
+  | { type: "result"; jobId: string; result: AnalysisResult }
+  | { type: "error"; jobId: string; code: string; message: string };
+
+const port = parentPort;
+
+port?.on("message", async ({ jobId, audio, params }: WorkerJobRequest) => {
+  const post = (message: WorkerJobResponse) => port.postMessage(message);
+
+  try {
+    post({ type: "progress", jobId, status: { step: "decoding", progress: 5, message: "Decoding audio file..." } });
+    const decoded = await decodeAudio(audio);
+
+    const result = await analyzeChannels(decoded.channelData, decoded.sampleRate, params, {
+      onProgress: status => post({ type: "progress", jobId, status }),
+    });
+    post({ type: "result", jobId, result });
+  } catch (err) {
+    if (err instanceof AudioDecodeError) {
+      post({ type: "error", jobId, code: err.code, message: err.message });
+    } else {
+      post({
+        type: "error",
+        jobId,
+        code: "ANALYSIS_FAILED",
+        message: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+});
@@ -0,0 +1,22 @@
+import type { Response } from "express";
+import type { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+// Every 4xx reply from the API uses this shape.
+export interface ApiError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+export function sendError(res: Response, status: number, error: ApiError) {
+  res.status(status).json(error);
+}
+
+export function sendValidationError(res: Response, code: string, error: ZodError) {
+  sendError(res, 400, {
+    code,
+    message: fromZodError(error).message,
+    details: error.issues,
+  });
+}
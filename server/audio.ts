@@ -0,0 +1,73 @@
+import type { AudioData } from "audio-decode";
+
+export type AudioFormat = "wav" | "flac" | "mp3" | "ogg";
+
+export const SUPPORTED_AUDIO_FORMATS: AudioFormat[] = ["wav", "flac", "mp3", "ogg"];
+
+export interface DecodedAudio {
+  format: AudioFormat;
+  // One array of samples per channel.
+  channelData: Float32Array[];
+  sampleRate: number;
+}
+
+export class AudioDecodeError extends Error {
+  constructor(
+    public status: number,
+    public code: "UNSUPPORTED_FORMAT" | "CORRUPT_AUDIO",
+    message: string,
+  ) {
+    super(message);
+    this.name = "AudioDecodeError";
+  }
+}
+
+function ascii(buffer: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(buffer.subarray(offset, offset + length)));
+}
+
+// Sniffs the container from its magic bytes rather than trusting the file
+// name or the client-supplied MIME type.
+export function detectAudioFormat(buffer: Uint8Array): AudioFormat | null {
+  if (buffer.length < 12) return null;
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 4) === "WAVE") return "wav";
+  if (ascii(buffer, 0, 4) === "fLaC") return "flac";
+  if (ascii(buffer, 0, 4) === "OggS") return "ogg";
+  if (ascii(buffer, 0, 3) === "ID3") return "mp3";
+  if (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) return "mp3";
+  return null;
+}
+
+export async function decodeAudio(buffer: Uint8Array): Promise<DecodedAudio> {
+  const format = detectAudioFormat(buffer);
+  if (!format) {
+    throw new AudioDecodeError(
+      415,
+      "UNSUPPORTED_FORMAT",
+      `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(", ")}`,
+    );
+  }
+
+  // audio-decode is ESM-only and loads its codecs lazily, so keep it out of
+  // the CommonJS server bundle.
+  const { default: decode } = await import("audio-decode");
+
+  let decoded: AudioData;
+  try {
+    decoded = await decode(buffer);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : "decoder failed";
+    throw new AudioDecodeError(422, "CORRUPT_AUDIO", `Could not decode ${format} file: ${reason}`);
+  }
+
+  const [samples] = decoded.channelData;
+  if (!samples || samples.length === 0 || !decoded.sampleRate) {
+    throw new AudioDecodeError(422, "CORRUPT_AUDIO", `The ${format} file contains no audio samples`);
+  }
+
+  return {
+    format,
+    channelData: decoded.channelData,
+    sampleRate: decoded.sampleRate,
+  };
+}
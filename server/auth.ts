@@ -0,0 +1,145 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import type { SessionOptions } from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { insertUserSchema, type PublicUser, type User as StoredUser } from "@shared/schema";
+import { sendError, sendValidationError } from "./api-error";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+// Stored as "<hex hash>.<hex salt>".
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const expected = Buffer.from(hashed, "hex");
+  const actual = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function toPublicUser({ password: _password, ...user }: StoredUser): PublicUser {
+  return user;
+}
+
+export function sessionConfig(): SessionOptions {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  return {
+    secret: secret || "audio2strudel-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000,
+    },
+  };
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  sendError(res, 401, { code: "UNAUTHENTICATED", message: "Log in to continue" });
+}
+
+// Expects the session middleware to be installed already (see server/index.ts).
+export function setupAuth(app: Express) {
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    const parsed = insertUserSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, "INVALID_REGISTRATION", parsed.error);
+
+    try {
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return sendError(res, 409, { code: "USERNAME_TAKEN", message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+
+      req.login(toPublicUser(user), (err) => {
+        if (err) return next(err);
+        res.status(201).json(req.user);
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return sendError(res, 401, {
+          code: "INVALID_LOGIN",
+          message: "Incorrect username or password",
+        });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return sendError(res, 401, { code: "UNAUTHENTICATED", message: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+}
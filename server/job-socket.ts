@@ -0,0 +1,57 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import type { AnalysisJob } from "@shared/schema";
+import type { JobQueue } from "./jobs";
+
+const JOB_SOCKET_PATH = /^\/api\/jobs\/([^/]+)\/ws$/;
+
+export type JobSocketMessage = Pick<AnalysisJob, "id" | "state" | "status" | "error">;
+
+function toMessage({ id, state, status, error }: AnalysisJob): string {
+  const message: JobSocketMessage = { id, state, status, error };
+  return JSON.stringify(message);
+}
+
+function isFinished(job: AnalysisJob): boolean {
+  return job.state === "completed" || job.state === "failed" || job.state === "cancelled";
+}
+
+// Streams a job's ProcessingStatus to `ws://<host>/api/jobs/:id/ws` and closes
+// the socket once the job finishes; fetch the result from GET /api/jobs/:id.
+// Only upgrades on that path are handled so Vite's HMR socket is unaffected.
+export function attachJobSocket(httpServer: Server, queue: JobQueue) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url ?? "", "http://localhost");
+    const match = JOB_SOCKET_PATH.exec(pathname);
+    if (!match) return;
+
+    const job = queue.get(decodeURIComponent(match[1]));
+    if (!job) {
+      socket.end("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => subscribe(ws, job.id));
+  });
+
+  function subscribe(ws: WebSocket, jobId: string) {
+    const current = queue.get(jobId);
+    if (!current) return ws.close(1000);
+
+    ws.send(toMessage(current));
+    if (isFinished(current)) return ws.close(1000);
+
+    const onUpdate = (job: AnalysisJob) => {
+      if (job.id !== jobId || ws.readyState !== WebSocket.OPEN) return;
+      ws.send(toMessage(job));
+      if (isFinished(job)) ws.close(1000);
+    };
+    queue.on("update", onUpdate);
+    ws.on("close", () => queue.off("update", onUpdate));
+  }
+
+  return wss;
+}
@@ -0,0 +1,253 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { Worker } from "worker_threads";
+import type { AnalysisJob, AnalysisJobState, AnalysisParams } from "@shared/schema";
+import type { WorkerJobRequest, WorkerJobResponse } from "./analysis-worker";
+
+export interface JobQueueOptions {
+  // Maximum number of analyses running in parallel, one worker thread each.
+  concurrency: number;
+  // How long finished jobs (and their results) stay retrievable.
+  resultTtlMs: number;
+  // How many jobs may wait for a free worker before submit() refuses more.
+  maxPending: number;
+}
+
+export function jobQueueOptionsFromEnv(): JobQueueOptions {
+  return {
+    concurrency:
+      parseInt(process.env.ANALYSIS_WORKERS || "", 10) ||
+      Math.max(1, Math.min(4, os.cpus().length - 1)),
+    resultTtlMs: parseInt(process.env.JOB_RESULT_TTL_MS || "", 10) || 15 * 60 * 1000,
+    maxPending: parseInt(process.env.MAX_QUEUED_JOBS || "", 10) || 32,
+  };
+}
+
+export class JobQueueFullError extends Error {
+  readonly status = 503;
+  readonly code = "QUEUE_FULL";
+
+  constructor(maxPending: number) {
+    super(`The analysis queue is full (${maxPending} jobs waiting). Try again later.`);
+    this.name = "JobQueueFullError";
+  }
+}
+
+interface JobRecord {
+  job: AnalysisJob;
+  audio: Uint8Array | null;
+  params: AnalysisParams;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+interface PoolSlot {
+  worker: Worker;
+  jobId: string | null;
+}
+
+function spawnAnalysisWorker(): Worker {
+  // The production bundle ships the worker as its own file next to index.cjs.
+  // In development tsx's loader hooks are not inherited by worker threads, so
+  // the thread registers them itself before importing the TypeScript source.
+  if (process.env.NODE_ENV === "production") {
+    return new Worker(path.resolve(__dirname, "analysis-worker.cjs"));
+  }
+  // Resolved from the project root (where `npm run dev` runs) because
+  // import.meta is unavailable in the CommonJS production bundle.
+  const entry = pathToFileURL(path.resolve("server", "analysis-worker.ts")).href;
+  return new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`,
+    { eval: true },
+  );
+}
+
+const FINISHED_STATES: AnalysisJobState[] = ["completed", "failed", "cancelled"];
+
+// Bounded pool of analysis worker threads fed from a FIFO queue. Emits
+// "update" with a job snapshot whenever a job's state or progress changes.
+export class JobQueue extends EventEmitter {
+  private jobs = new Map<string, JobRecord>();
+  private pending: string[] = [];
+  private slots: PoolSlot[] = [];
+
+  constructor(private options: JobQueueOptions) {
+    super();
+    // Every open job socket adds a listener.
+    this.setMaxListeners(0);
+  }
+
+  submit(audio: Uint8Array, params: AnalysisParams, fileName?: string): AnalysisJob {
+    if (this.pending.length >= this.options.maxPending) {
+      throw new JobQueueFullError(this.options.maxPending);
+    }
+    const job: AnalysisJob = {
+      id: randomUUID(),
+      state: "queued",
+      status: { step: "uploading", progress: 0, message: "Waiting for a free worker..." },
+      fileName,
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.id, { job, audio, params });
+    this.pending.push(job.id);
+    this.emit("update", job);
+    this.dispatch();
+    return job;
+  }
+
+  // Submits a job and resolves with it once finished, for callers that wait
+  // on the result instead of polling. Aborting the signal cancels the job, and
+  // the finished job is dropped right away rather than kept for resultTtlMs.
+  run(
+    audio: Uint8Array,
+    params: AnalysisParams,
+    fileName?: string,
+    signal?: AbortSignal,
+  ): Promise<AnalysisJob> {
+    const { id } = this.submit(audio, params, fileName);
+    return new Promise(resolve => {
+      const onAbort = () => this.cancel(id);
+      const onUpdate = (job: AnalysisJob) => {
+        if (job.id !== id || !FINISHED_STATES.includes(job.state)) return;
+        this.off("update", onUpdate);
+        signal?.removeEventListener("abort", onAbort);
+        clearTimeout(this.jobs.get(id)?.expiryTimer);
+        this.jobs.delete(id);
+        resolve(job);
+      };
+      this.on("update", onUpdate);
+      if (signal?.aborted) onAbort();
+      else signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  get(id: string): AnalysisJob | undefined {
+    return this.jobs.get(id)?.job;
+  }
+
+  // Cancels a queued or running job. Running jobs are stopped by terminating
+  // their worker thread; a fresh one is spawned for the next job.
+  cancel(id: string): AnalysisJob | undefined {
+    const record = this.jobs.get(id);
+    if (!record) return undefined;
+    if (FINISHED_STATES.includes(record.job.state)) return record.job;
+
+    this.pending = this.pending.filter(pendingId => pendingId !== id);
+    const slot = this.slots.find(s => s.jobId === id);
+    if (slot) {
+      this.removeSlot(slot);
+      void slot.worker.terminate();
+    }
+
+    this.finish(record, "cancelled", {
+      status: { ...record.job.status, message: "Cancelled" },
+    });
+    this.dispatch();
+    return record.job;
+  }
+
+  async close(): Promise<void> {
+    const slots = this.slots;
+    this.slots = [];
+    await Promise.all(slots.map(slot => slot.worker.terminate()));
+    this.jobs.forEach(record => clearTimeout(record.expiryTimer));
+  }
+
+  private dispatch() {
+    while (this.pending.length > 0) {
+      const slot = this.slots.find(s => s.jobId === null) ?? this.spawnSlot();
+      if (!slot) return;
+
+      const record = this.jobs.get(this.pending.shift()!);
+      if (!record?.audio) continue;
+
+      const audio = record.audio;
+      record.audio = null;
+      slot.jobId = record.job.id;
+      this.update(record, {
+        state: "running",
+        status: { step: "decoding", progress: 0, message: "Starting analysis..." },
+      });
+
+      const request: WorkerJobRequest = { jobId: record.job.id, audio, params: record.params };
+      slot.worker.postMessage(request, [audio.buffer as ArrayBuffer]);
+    }
+  }
+
+  private spawnSlot(): PoolSlot | null {
+    if (this.slots.length >= this.options.concurrency) return null;
+
+    const slot: PoolSlot = { worker: spawnAnalysisWorker(), jobId: null };
+    slot.worker.on("message", (message: WorkerJobResponse) => this.handleMessage(slot, message));
+    slot.worker.on("error", err => this.handleCrash(slot, err.message));
+    slot.worker.on("exit", code => {
+      if (this.slots.includes(slot)) this.handleCrash(slot, `Analysis worker exited with code ${code}`);
+    });
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private removeSlot(slot: PoolSlot) {
+    this.slots = this.slots.filter(s => s !== slot);
+  }
+
+  private handleMessage(slot: PoolSlot, message: WorkerJobResponse) {
+    const record = this.jobs.get(message.jobId);
+    if (!record || slot.jobId !== message.jobId) return;
+
+    switch (message.type) {
+      case "progress":
+        this.update(record, { status: message.status });
+        return;
+      case "result":
+        this.finish(record, "completed", {
+          status: { step: "complete", progress: 100, message: "Analysis complete!" },
+          result: message.result,
+        });
+        break;
+      case "error":
+        this.finish(record, "failed", {
+          status: { ...record.job.status, message: message.message },
+          error: { code: message.code, message: message.message },
+        });
+        break;
+    }
+
+    slot.jobId = null;
+    this.dispatch();
+  }
+
+  private handleCrash(slot: PoolSlot, reason: string) {
+    this.removeSlot(slot);
+    const record = slot.jobId ? this.jobs.get(slot.jobId) : undefined;
+    if (record && !FINISHED_STATES.includes(record.job.state)) {
+      this.finish(record, "failed", {
+        status: { ...record.job.status, message: reason },
+        error: { code: "WORKER_CRASHED", message: reason },
+      });
+    }
+    this.dispatch();
+  }
+
+  private update(record: JobRecord, patch: Partial<AnalysisJob>) {
+    record.job = { ...record.job, ...patch };
+    this.emit("update", record.job);
+  }
+
+  private finish(record: JobRecord, state: AnalysisJobState, patch: Partial<AnalysisJob>) {
+    const now = Date.now();
+    const id = record.job.id;
+    record.audio = null;
+    // Armed before the update goes out so run() can clear it.
+    record.expiryTimer = setTimeout(() => this.jobs.delete(id), this.options.resultTtlMs);
+    record.expiryTimer.unref();
+    this.update(record, {
+      ...patch,
+      state,
+      finishedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.options.resultTtlMs).toISOString(),
+    });
+  }
+}
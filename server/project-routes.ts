@@ -0,0 +1,152 @@
+import type { Express, Response } from "express";
+import {
+  insertAnalysisSchema,
+  insertProjectSchema,
+  updateAnalysisSchema,
+} from "@shared/schema";
+import { sendError, sendValidationError } from "./api-error";
+import { requireAuth } from "./auth";
+import { storage } from "./storage";
+
+function projectNotFound(res: Response) {
+  sendError(res, 404, { code: "PROJECT_NOT_FOUND", message: "Project not found" });
+}
+
+function analysisNotFound(res: Response) {
+  sendError(res, 404, { code: "ANALYSIS_NOT_FOUND", message: "Analysis not found" });
+}
+
+// Other users' projects are reported as missing rather than forbidden so ids
+// can't be probed.
+async function findOwnedProject(id: string, userId: string) {
+  const project = await storage.getProject(id);
+  return project?.userId === userId ? project : undefined;
+}
+
+async function findOwnedAnalysis(id: string, userId: string) {
+  const analysis = await storage.getAnalysis(id);
+  if (!analysis || !(await findOwnedProject(analysis.projectId, userId))) return undefined;
+  return analysis;
+}
+
+// CRUD for the signed-in user's projects and the analyses (transcriptions)
+// inside them.
+export function registerProjectRoutes(app: Express) {
+  app.use(["/api/projects", "/api/analyses"], requireAuth);
+
+  app.get("/api/projects", async (req, res, next) => {
+    try {
+      const projects = await storage.getProjectsByUser(req.user!.id);
+      const withAnalyses = await Promise.all(
+        projects.map(async (project) => ({
+          ...project,
+          analyses: (await storage.getAnalysesByProject(project.id)).map(
+            ({ id, fileName, detectedKey, estimatedTempo, duration, updatedAt }) => ({
+              id,
+              fileName,
+              detectedKey,
+              estimatedTempo,
+              duration,
+              updatedAt,
+            }),
+          ),
+        })),
+      );
+      res.json(withAnalyses);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/projects", async (req, res, next) => {
+    const parsed = insertProjectSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, "INVALID_PROJECT", parsed.error);
+
+    try {
+      res.status(201).json(await storage.createProject({ ...parsed.data, userId: req.user!.id }));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/projects/:id", async (req, res, next) => {
+    try {
+      const project = await findOwnedProject(req.params.id, req.user!.id);
+      if (!project) return projectNotFound(res);
+      const analyses = await storage.getAnalysesByProject(project.id);
+      res.json({ ...project, analyses });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.patch("/api/projects/:id", async (req, res, next) => {
+    const parsed = insertProjectSchema.partial().safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, "INVALID_PROJECT", parsed.error);
+
+    try {
+      if (!(await findOwnedProject(req.params.id, req.user!.id))) return projectNotFound(res);
+      const project = await storage.updateProject(req.params.id, parsed.data);
+      if (!project) return projectNotFound(res);
+      res.json(project);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/projects/:id", async (req, res, next) => {
+    try {
+      if (!(await findOwnedProject(req.params.id, req.user!.id))) return projectNotFound(res);
+      await storage.deleteProject(req.params.id);
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/projects/:id/analyses", async (req, res, next) => {
+    const parsed = insertAnalysisSchema.safeParse({ ...req.body, projectId: req.params.id });
+    if (!parsed.success) return sendValidationError(res, "INVALID_ANALYSIS", parsed.error);
+
+    try {
+      if (!(await findOwnedProject(req.params.id, req.user!.id))) return projectNotFound(res);
+      res.status(201).json(await storage.createAnalysis(parsed.data));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/analyses/:id", async (req, res, next) => {
+    try {
+      const analysis = await findOwnedAnalysis(req.params.id, req.user!.id);
+      if (!analysis) return analysisNotFound(res);
+      res.json(analysis);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.patch("/api/analyses/:id", async (req, res, next) => {
+    const parsed = updateAnalysisSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, "INVALID_ANALYSIS", parsed.error);
+
+    try {
+      if (!(await findOwnedAnalysis(req.params.id, req.user!.id))) return analysisNotFound(res);
+      const analysis = await storage.updateAnalysis(req.params.id, parsed.data);
+      if (!analysis) return analysisNotFound(res);
+      res.json(analysis);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/analyses/:id", async (req, res, next) => {
+    try {
+      if (!(await findOwnedAnalysis(req.params.id, req.user!.id))) return analysisNotFound(res);
+      await storage.deleteAnalysis(req.params.id);
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -1,5 +1,103 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
+import { analysisParamsSchema, analysisResultSchema, type AnalysisParams } from "@shared/schema";
+import { sendError, sendValidationError } from "./api-error";
+import { detectAudioFormat, SUPPORTED_AUDIO_FORMATS } from "./audio";
+import { attachJobSocket } from "./job-socket";
+import { JobQueue, JobQueueFullError, jobQueueOptionsFromEnv } from "./jobs";
+import { registerProjectRoutes } from "./project-routes";
+import { registerShareRoutes } from "./share-routes";
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+// Wraps multer so upload limit violations come back in the same shape as the
+// route's own validation errors instead of falling through to the 500 handler.
+function receiveAudio(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const tooLarge = err.code === "LIMIT_FILE_SIZE";
+      return sendError(res, tooLarge ? 413 : 400, {
+        code: tooLarge ? "FILE_TOO_LARGE" : "INVALID_UPLOAD",
+        message: tooLarge
+          ? `Audio files are limited to ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`
+          : err.message,
+      });
+    }
+    if (err) return next(err);
+    next();
+  });
+}
+
+// Accepts either a JSON `params` field or individual form fields.
+function readParams(body: Record<string, unknown>): unknown {
+  if (typeof body.params === "string") {
+    return JSON.parse(body.params);
+  }
+  const raw: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (typeof value !== "string") continue;
+    if (value === "true" || value === "false") raw[key] = value === "true";
+    else if (value.trim() !== "" && !isNaN(Number(value))) raw[key] = Number(value);
+    else raw[key] = value;
+  }
+  return raw;
+}
+
+// Checks the uploaded file and analysis params shared by /api/analyze and
+// /api/jobs, replying with a 400 and returning null when either is missing or invalid.
+function validateUpload(
+  req: Request,
+  res: Response,
+): { file: Express.Multer.File; params: AnalysisParams } | null {
+  if (!req.file) {
+    sendError(res, 400, {
+      code: "MISSING_FILE",
+      message: "Upload an audio file in the `file` field",
+    });
+    return null;
+  }
+
+  let rawParams: unknown;
+  try {
+    rawParams = readParams(req.body ?? {});
+  } catch {
+    sendError(res, 400, {
+      code: "INVALID_PARAMS",
+      message: "The `params` field must be valid JSON",
+    });
+    return null;
+  }
+
+  const params = analysisParamsSchema.safeParse(rawParams);
+  if (!params.success) {
+    sendValidationError(res, "INVALID_PARAMS", params.error);
+    return null;
+  }
+
+  return { file: req.file, params: params.data };
+}
+
+// Rejects unsupported files up front rather than as a failed job later.
+function checkAudioFormat(file: Express.Multer.File, res: Response): boolean {
+  if (detectAudioFormat(file.buffer)) return true;
+  sendError(res, 415, {
+    code: "UNSUPPORTED_FORMAT",
+    message: `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(", ")}`,
+  });
+  return false;
+}
+
+// Status for a failed /api/analyze job, keyed by the worker's error code.
+const FAILED_JOB_STATUS: Record<string, number> = {
+  UNSUPPORTED_FORMAT: 415,
+  CORRUPT_AUDIO: 422,
+};
 
 export async function registerRoutes(
   httpServer: Server,
@@ -13,7 +111,7 @@ export async function registerRoutes(
   // Audio processing stats endpoint (for future analytics)
   app.get("/api/stats", (_req, res) => {
     res.json({
-      supportedFormats: ["mp3", "wav", "ogg", "flac", "m4a"],
+      supportedFormats: SUPPORTED_AUDIO_FORMATS,
       version: "1.0.0",
       features: {
         melodyExtraction: true,
@@ -23,5 +121,79 @@ export async function registerRoutes(
     });
   });
 
+  // Analyses run on a pool of worker threads so the event loop stays free.
+  // /api/jobs hands back a job to poll; progress is pushed over
+  // ws://<host>/api/jobs/:id/ws.
+  const jobs = new JobQueue(jobQueueOptionsFromEnv());
+  attachJobSocket(httpServer, jobs);
+  httpServer.on("close", () => void jobs.close());
+
+  // Runs the same analysis pipeline as the browser on an uploaded file and
+  // replies once it is done. Expects multipart/form-data with a `file` field
+  // plus optional params.
+  app.post("/api/analyze", receiveAudio, async (req, res, next) => {
+    const upload = validateUpload(req, res);
+    if (!upload || !checkAudioFormat(upload.file, res)) return;
+
+    // Stop the analysis when the client goes away before the reply.
+    const abort = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abort.abort();
+    });
+
+    try {
+      const job = await jobs.run(
+        new Uint8Array(upload.file.buffer),
+        upload.params,
+        upload.file.originalname,
+        abort.signal,
+      );
+      if (job.state === "completed") {
+        res.json(analysisResultSchema.parse(job.result));
+      } else if (job.error) {
+        sendError(res, FAILED_JOB_STATUS[job.error.code] ?? 500, job.error);
+      }
+    } catch (err) {
+      if (err instanceof JobQueueFullError) {
+        return sendError(res, err.status, { code: err.code, message: err.message });
+      }
+      next(err);
+    }
+  });
+
+  app.post("/api/jobs", receiveAudio, (req, res, next) => {
+    const upload = validateUpload(req, res);
+    if (!upload || !checkAudioFormat(upload.file, res)) return;
+
+    try {
+      const job = jobs.submit(new Uint8Array(upload.file.buffer), upload.params, upload.file.originalname);
+      res.status(202).location(`/api/jobs/${job.id}`).json(job);
+    } catch (err) {
+      if (err instanceof JobQueueFullError) {
+        return sendError(res, err.status, { code: err.code, message: err.message });
+      }
+      next(err);
+    }
+  });
+
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) {
+      return sendError(res, 404, { code: "JOB_NOT_FOUND", message: "Job not found or expired" });
+    }
+    res.json(job);
+  });
+
+  app.delete("/api/jobs/:id", (req, res) => {
+    const job = jobs.cancel(req.params.id);
+    if (!job) {
+      return sendError(res, 404, { code: "JOB_NOT_FOUND", message: "Job not found or expired" });
+    }
+    res.json(job);
+  });
+
+  registerProjectRoutes(app);
+  registerShareRoutes(app);
+
   return httpServer;
 }
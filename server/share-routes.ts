@@ -0,0 +1,104 @@
+import type { Express } from "express";
+import { randomBytes } from "crypto";
+import { createBeatGrid, generateStrudelCode, strudelOptionsFromParams } from "@shared/analysis";
+import { defaultAnalysisParams, insertShareSchema } from "@shared/schema";
+import { sendError, sendValidationError } from "./api-error";
+import { requireAuth } from "./auth";
+import { storage } from "./storage";
+
+// 128 random bits, URL-safe: not guessable or enumerable.
+function createSlug(): string {
+  return randomBytes(16).toString("base64url");
+}
+
+export function registerShareRoutes(app: Express) {
+  // Snapshots the posted transcription. The Strudel code is generated here
+  // rather than accepted from the client, so a link always shows code that
+  // matches its notes.
+  app.post("/api/shares", requireAuth, async (req, res, next) => {
+    const parsed = insertShareSchema.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, "INVALID_SHARE", parsed.error);
+
+    const snapshot = parsed.data;
+    try {
+      const share = await storage.createShare({
+        ...snapshot,
+        slug: createSlug(),
+        userId: req.user!.id,
+        strudelCode: generateStrudelCode(
+          snapshot.melody,
+          snapshot.chords,
+          snapshot.tempo,
+          snapshot.timeSignature,
+          snapshot.beats,
+          {
+            ...strudelOptionsFromParams(snapshot.codeOptions ?? {}, snapshot.detectedKey),
+            keySegments: snapshot.keySegments,
+            bass: snapshot.bass,
+            drums: snapshot.drums,
+            downbeats: snapshot.downbeats,
+            swing: snapshot.swing,
+          },
+        ),
+      });
+      res.status(201).json(share);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Public: anyone with the slug can view the snapshot.
+  app.get("/api/shares/:slug", async (req, res, next) => {
+    try {
+      const share = await storage.getShare(req.params.slug);
+      if (!share) {
+        return sendError(res, 404, { code: "SHARE_NOT_FOUND", message: "Shared pattern not found" });
+      }
+      const { userId: _userId, ...publicShare } = share;
+      res.json(publicShare);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Copies a shared snapshot into a new project owned by the current user.
+  app.post("/api/shares/:slug/fork", requireAuth, async (req, res, next) => {
+    try {
+      const share = await storage.getShare(req.params.slug);
+      if (!share) {
+        return sendError(res, 404, { code: "SHARE_NOT_FOUND", message: "Shared pattern not found" });
+      }
+
+      const project = await storage.createProject({ name: share.title, userId: req.user!.id });
+      const analysis = await storage.createAnalysis({
+        projectId: project.id,
+        fileName: share.title,
+        params: {
+          ...defaultAnalysisParams,
+          ...share.codeOptions,
+          autoDetectTempo: false,
+          autoDetectTimeSignature: false,
+          targetTempo: Math.min(240, Math.max(40, Math.round(share.tempo))),
+          timeSignature: share.timeSignature,
+          ...(share.detectedKey ? { autoDetectKey: false, targetKey: share.detectedKey } : {}),
+        },
+        melody: share.melody,
+        chords: share.chords,
+        bass: share.bass ?? undefined,
+        drums: share.drums ?? undefined,
+        detectedKey: share.detectedKey ?? undefined,
+        keySegments: share.keySegments ?? undefined,
+        estimatedTempo: share.tempo,
+        timeSignature: share.timeSignature,
+        groove: share.swing ? { swing: share.swing, microtiming: [] } : undefined,
+        duration: share.duration,
+        sampleRate: share.sampleRate,
+        beats: share.beats.length > 0 ? share.beats : createBeatGrid(share.duration, share.tempo),
+        downbeats: share.downbeats ?? undefined,
+      });
+      res.status(201).json(analysis);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
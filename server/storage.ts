@@ -1,20 +1,68 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  analyses,
+  projects,
+  shares,
+  users,
+  type User,
+  type InsertUser,
+  type Project,
+  type InsertProject,
+  type UpdateProject,
+  type SavedAnalysis,
+  type InsertAnalysis,
+  type UpdateAnalysis,
+  type Share,
+  type InsertShare,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { asc, desc, eq } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getProjectsByUser(userId: string): Promise<Project[]>;
+  getProject(id: string): Promise<Project | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: string, project: UpdateProject): Promise<Project | undefined>;
+  deleteProject(id: string): Promise<boolean>;
+
+  getAnalysesByProject(projectId: string): Promise<SavedAnalysis[]>;
+  getAnalysis(id: string): Promise<SavedAnalysis | undefined>;
+  createAnalysis(analysis: InsertAnalysis): Promise<SavedAnalysis>;
+  updateAnalysis(id: string, analysis: UpdateAnalysis): Promise<SavedAnalysis | undefined>;
+  deleteAnalysis(id: string): Promise<boolean>;
+
+  getShare(slug: string): Promise<Share | undefined>;
+  createShare(share: InsertShare): Promise<Share>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private projects: Map<string, Project>;
+  private analyses: Map<string, SavedAnalysis>;
+  private shares: Map<string, Share>;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.projects = new Map();
+    this.analyses = new Map();
+    this.shares = new Map();
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +81,223 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getProjectsByUser(userId: string): Promise<Project[]> {
+    return Array.from(this.projects.values())
+      .filter((project) => project.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const now = new Date();
+    const project: Project = { ...insertProject, id: randomUUID(), createdAt: now, updatedAt: now };
+    this.projects.set(project.id, project);
+    return project;
+  }
+
+  async updateProject(id: string, update: UpdateProject): Promise<Project | undefined> {
+    const existing = this.projects.get(id);
+    if (!existing) return undefined;
+    const project: Project = { ...existing, ...update, updatedAt: new Date() };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    Array.from(this.analyses.values())
+      .filter((analysis) => analysis.projectId === id)
+      .forEach((analysis) => this.analyses.delete(analysis.id));
+    return this.projects.delete(id);
+  }
+
+  async getAnalysesByProject(projectId: string): Promise<SavedAnalysis[]> {
+    return Array.from(this.analyses.values())
+      .filter((analysis) => analysis.projectId === projectId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAnalysis(id: string): Promise<SavedAnalysis | undefined> {
+    return this.analyses.get(id);
+  }
+
+  async createAnalysis(insertAnalysis: InsertAnalysis): Promise<SavedAnalysis> {
+    const now = new Date();
+    const analysis: SavedAnalysis = {
+      ...insertAnalysis,
+      id: randomUUID(),
+      detectedKey: insertAnalysis.detectedKey ?? null,
+      estimatedTempo: insertAnalysis.estimatedTempo ?? null,
+      timeSignature: insertAnalysis.timeSignature ?? null,
+      groove: insertAnalysis.groove ?? null,
+      referencePitch: insertAnalysis.referencePitch ?? null,
+      keySegments: insertAnalysis.keySegments ?? null,
+      keyCandidates: insertAnalysis.keyCandidates ?? null,
+      channel: insertAnalysis.channel ?? null,
+      channelLayers: insertAnalysis.channelLayers ?? null,
+      region: insertAnalysis.region ?? null,
+      bass: insertAnalysis.bass ?? null,
+      drums: insertAnalysis.drums ?? null,
+      downbeats: insertAnalysis.downbeats ?? null,
+      waveformData: insertAnalysis.waveformData ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.analyses.set(analysis.id, analysis);
+    this.touchProject(analysis.projectId, now);
+    return analysis;
+  }
+
+  async updateAnalysis(id: string, update: UpdateAnalysis): Promise<SavedAnalysis | undefined> {
+    const existing = this.analyses.get(id);
+    if (!existing) return undefined;
+    const now = new Date();
+    const analysis: SavedAnalysis = { ...existing, ...update, updatedAt: now };
+    this.analyses.set(id, analysis);
+    this.touchProject(analysis.projectId, now);
+    return analysis;
+  }
+
+  async deleteAnalysis(id: string): Promise<boolean> {
+    return this.analyses.delete(id);
+  }
+
+  async getShare(slug: string): Promise<Share | undefined> {
+    return this.shares.get(slug);
+  }
+
+  async createShare(insertShare: InsertShare): Promise<Share> {
+    const share: Share = {
+      ...insertShare,
+      detectedKey: insertShare.detectedKey ?? null,
+      keySegments: insertShare.keySegments ?? null,
+      bass: insertShare.bass ?? null,
+      drums: insertShare.drums ?? null,
+      swing: insertShare.swing ?? null,
+      codeOptions: insertShare.codeOptions ?? null,
+      downbeats: insertShare.downbeats ?? null,
+      createdAt: new Date(),
+    };
+    this.shares.set(share.slug, share);
+    return share;
+  }
+
+  private touchProject(id: string, updatedAt: Date) {
+    const project = this.projects.get(id);
+    if (project) this.projects.set(id, { ...project, updatedAt });
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, connectionString: string) {
+    this.sessionStore = new PostgresSessionStore({
+      conString: connectionString,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getProjectsByUser(userId: string): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(eq(projects.userId, userId))
+      .orderBy(desc(projects.updatedAt));
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values(insertProject).returning();
+    return project;
+  }
+
+  async updateProject(id: string, update: UpdateProject): Promise<Project | undefined> {
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(projects).where(eq(projects.id, id)).returning({ id: projects.id });
+    return deleted.length > 0;
+  }
+
+  async getAnalysesByProject(projectId: string): Promise<SavedAnalysis[]> {
+    return this.db
+      .select()
+      .from(analyses)
+      .where(eq(analyses.projectId, projectId))
+      .orderBy(asc(analyses.createdAt));
+  }
+
+  async getAnalysis(id: string): Promise<SavedAnalysis | undefined> {
+    const [analysis] = await this.db.select().from(analyses).where(eq(analyses.id, id));
+    return analysis;
+  }
+
+  async createAnalysis(insertAnalysis: InsertAnalysis): Promise<SavedAnalysis> {
+    const [analysis] = await this.db.insert(analyses).values(insertAnalysis).returning();
+    await this.touchProject(analysis.projectId);
+    return analysis;
+  }
+
+  async updateAnalysis(id: string, update: UpdateAnalysis): Promise<SavedAnalysis | undefined> {
+    const [analysis] = await this.db
+      .update(analyses)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(analyses.id, id))
+      .returning();
+    if (analysis) await this.touchProject(analysis.projectId);
+    return analysis;
+  }
+
+  async deleteAnalysis(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(analyses).where(eq(analyses.id, id)).returning({ id: analyses.id });
+    return deleted.length > 0;
+  }
+
+  async getShare(slug: string): Promise<Share | undefined> {
+    const [share] = await this.db.select().from(shares).where(eq(shares.slug, slug));
+    return share;
+  }
+
+  async createShare(insertShare: InsertShare): Promise<Share> {
+    const [share] = await this.db.insert(shares).values(insertShare).returning();
+    return share;
+  }
+
+  private async touchProject(id: string) {
+    await this.db.update(projects).set({ updatedAt: new Date() }).where(eq(projects.id, id));
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when a database is provisioned, otherwise in-memory for local development.
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDb(process.env.DATABASE_URL), process.env.DATABASE_URL)
+  : new MemStorage();
@@ -0,0 +1,99 @@
+import type { AnalysisParams, AnalysisResult, ChannelLayer, DrumHit, KeySegment, Note } from "../schema";
+import { extendBeats } from "./beats";
+import { chordsFromChromagram } from "./chords";
+import type { Chromagram } from "./chroma";
+import { quantizeDrumHits } from "./drums";
+import { canonicalKey, detectKey, dominantKey, keyCandidates, trackKeys, type KeyOptions } from "./key";
+import { noteLimit } from "./melody";
+import { quantizeNotes } from "./quantize";
+import { generateStrudelCode, strudelOptionsFromParams } from "./strudel";
+import { estimateGroove } from "./swing";
+import { createBeatGrid, type BeatTrackingResult } from "./tempo";
+
+// What the pipeline measures on the audio itself. Notes and hits are as
+// transcribed: neither limited nor quantized yet.
+export interface AudioFeatures {
+  duration: number;
+  sampleRate: number;
+  waveformData: number[];
+  tracking: BeatTrackingResult;
+  referencePitch: number;
+  melody: Note[];
+  pitchClassHistogram: number[];
+  bass?: Note[];
+  chromagram: Chromagram;
+  drums?: DrumHit[];
+  channelLayers?: ChannelLayer[];
+}
+
+// Everything in the result that follows from the features and params: the
+// beat grid and groove, quantized notes, key, chords and the generated code.
+export function assembleResult(features: AudioFeatures, params: AnalysisParams): AnalysisResult {
+  const { duration, tracking, chromagram } = features;
+  const timeSignature = tracking.timeSignature ?? params.timeSignature;
+  const beatsPerBar = parseInt(timeSignature, 10) || 4;
+  const estimatedTempo = tracking.tempo;
+  const beats = tracking.beats.length >= 2 ? tracking.beats : createBeatGrid(duration, estimatedTempo);
+  const downbeats = tracking.beats.length >= 2
+    ? tracking.downbeats
+    : beats.filter((_, i) => i % beatsPerBar === 0);
+
+  const limit = noteLimit(params);
+  const gridBeats = extendBeats(beats, duration, estimatedTempo);
+  const groove = estimateGroove(tracking.onsets, gridBeats);
+  const swing = params.swingQuantize ? groove.swing : 1;
+  const prepare = (notes: Note[]) => {
+    const limited = notes.slice(0, limit);
+    return params.quantizeNotes ? quantizeNotes(limited, gridBeats, params.quantizeValue, swing) : limited;
+  };
+  const melody = prepare(features.melody);
+  const bass = features.bass && prepare(features.bass);
+  const channelLayers = features.channelLayers?.map(layer => ({
+    channel: layer.channel,
+    melody: prepare(layer.melody),
+    bass: layer.bass && prepare(layer.bass),
+  }));
+
+  const keyOptions: KeyOptions = { profile: params.keyProfile, modes: params.detectModes };
+  const keySegments: KeySegment[] = params.autoDetectKey
+    ? trackKeys(chromagram, duration, keyOptions)
+    : [{ key: canonicalKey(params.targetKey), time: 0, duration }];
+  const detectedKey = params.autoDetectKey
+    ? dominantKey(keySegments) ?? detectKey(features.pitchClassHistogram, keyOptions)
+    : canonicalKey(params.targetKey);
+  const candidates = keyCandidates(chromagram, keySegments, detectedKey, keyOptions);
+  const chords = chordsFromChromagram(chromagram, duration, beats, keySegments);
+
+  const drums = features.drums && quantizeDrumHits(features.drums, gridBeats, params.quantizeValue, swing);
+
+  const strudelCode = generateStrudelCode(
+    melody,
+    chords,
+    estimatedTempo,
+    timeSignature,
+    beats,
+    { ...strudelOptionsFromParams(params, detectedKey, groove), keySegments, bass, drums, downbeats, channelLayers }
+  );
+
+  return {
+    melody,
+    chords,
+    bass,
+    drums,
+    strudelCode,
+    duration,
+    sampleRate: features.sampleRate,
+    waveformData: features.waveformData,
+    detectedKey,
+    keySegments,
+    keyCandidates: candidates,
+    estimatedTempo,
+    timeSignature,
+    groove,
+    referencePitch: features.referencePitch,
+    noteCounts: { limit, melody: features.melody.length, bass: features.bass?.length },
+    beats,
+    downbeats,
+    channelLayers,
+  };
+}
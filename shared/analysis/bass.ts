@@ -0,0 +1,81 @@
+import type { AnalysisParams, Note } from "../schema";
+import { createVoicingGate, segmentNotes } from "./melody";
+import { A4_FREQUENCY } from "./notes";
+import { trackPitchPyin } from "./yin";
+
+export const MIN_BASS_FREQUENCY = 30;
+export const MAX_BASS_FREQUENCY = 250;
+
+// The low-passed signal is resampled to about this rate before pitch
+// tracking; it only has to cover MAX_BASS_FREQUENCY and its first overtones.
+const BASS_SAMPLE_RATE = 2000;
+// Q of the two biquad sections of a 4th-order Butterworth low-pass.
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+// Frames quieter than this share of the loudest low-register frame are
+// treated as silence, whatever the pitch tracker thinks.
+const SILENCE_RATIO = 0.1;
+
+// RBJ cookbook low-pass biquad, run in place.
+function lowPassSection(data: Float32Array, sampleRate: number, cutoff: number, q: number): void {
+  const w0 = (2 * Math.PI * cutoff) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * q);
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b0 = (1 - cos) / 2 / a0;
+  const b1 = (1 - cos) / a0;
+  const b2 = b0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < data.length; i++) {
+    const x = data[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    data[i] = y;
+  }
+}
+
+// Low-passes below MAX_BASS_FREQUENCY and keeps every n-th sample, which
+// makes the long frames needed for 30 Hz periods cheap to track.
+export function lowRegister(data: Float32Array, sampleRate: number): { data: Float32Array; sampleRate: number } {
+  const filtered = Float32Array.from(data);
+  for (const q of BUTTERWORTH_Q) lowPassSection(filtered, sampleRate, MAX_BASS_FREQUENCY, q);
+
+  const factor = Math.max(1, Math.floor(sampleRate / BASS_SAMPLE_RATE));
+  const decimated = new Float32Array(Math.floor(filtered.length / factor));
+  for (let i = 0; i < decimated.length; i++) decimated[i] = filtered[i * factor];
+  return { data: decimated, sampleRate: sampleRate / factor };
+}
+
+// Monophonic bass line from the 30–250 Hz register, tracked separately from
+// the melody so the two don't steal notes from each other. Always uses pYIN,
+// with the voicing threshold taken from the pitch sensitivity.
+export function extractBass(
+  data: Float32Array,
+  sampleRate: number,
+  params: AnalysisParams,
+  reference: number = A4_FREQUENCY
+): Note[] {
+  const low = lowRegister(data, sampleRate);
+  const frames = trackPitchPyin(low.data, low.sampleRate, {
+    minFrequency: MIN_BASS_FREQUENCY,
+    maxFrequency: MAX_BASS_FREQUENCY,
+  });
+  if (frames.length === 0) return [];
+
+  const loudest = Math.max(...frames.map(frame => frame.rms));
+  const isPitched = createVoicingGate({ ...params, pitchMethod: "pyin" });
+  const { notes } = segmentNotes(
+    frames,
+    frame => frame.rms >= loudest * SILENCE_RATIO && isPitched(frame),
+    params.minNoteDuration / 1000,
+    data.length / sampleRate,
+    reference
+  );
+
+  return notes;
+}
@@ -0,0 +1,53 @@
+// Helpers for working on a (possibly uneven) grid of detected beat times
+// instead of a fixed grid derived from a single tempo.
+
+function medianInterval(beats: number[], fallback: number): number {
+  if (beats.length < 2) return fallback;
+  const intervals = beats.slice(1).map((beat, i) => beat - beats[i]).sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)];
+}
+
+// Extends the beat list with the median period so it covers [0, duration].
+export function extendBeats(beats: number[], duration: number, tempo: number): number[] {
+  if (beats.length === 0) {
+    const period = 60 / tempo;
+    const grid: number[] = [];
+    for (let time = 0; time <= duration + period; time += period) grid.push(time);
+    return grid;
+  }
+
+  const period = medianInterval(beats, 60 / tempo);
+  const before: number[] = [];
+  for (let time = beats[0] - period; time > -period; time -= period) before.unshift(time);
+  const after: number[] = [];
+  for (let time = beats[beats.length - 1] + period; time <= duration + period; time += period) after.push(time);
+
+  return [...before, ...beats, ...after];
+}
+
+// Fractional beat position of `time` on the grid, interpolating between beats.
+export function timeToBeat(time: number, beats: number[]): number {
+  if (beats.length < 2) return 0;
+  if (time <= beats[0]) return (time - beats[0]) / (beats[1] - beats[0]);
+
+  const lastIndex = beats.length - 1;
+  if (time >= beats[lastIndex]) {
+    return lastIndex + (time - beats[lastIndex]) / (beats[lastIndex] - beats[lastIndex - 1]);
+  }
+
+  let low = 0;
+  let high = lastIndex;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (beats[mid] <= time) low = mid;
+    else high = mid;
+  }
+  return low + (time - beats[low]) / (beats[high] - beats[low]);
+}
+
+export function beatToTime(beat: number, beats: number[]): number {
+  if (beats.length < 2) return 0;
+  const lastIndex = beats.length - 1;
+  const index = Math.max(0, Math.min(lastIndex - 1, Math.floor(beat)));
+  return beats[index] + (beat - index) * (beats[index + 1] - beats[index]);
+}
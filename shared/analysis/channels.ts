@@ -0,0 +1,61 @@
+import type { ChannelMode } from "../schema";
+
+// Name of channel `index` of a file with `count` channels.
+export function channelName(index: number, count: number): string {
+  if (count === 1) return "mono";
+  if (count === 2) return index === 0 ? "left" : "right";
+  return `channel ${index + 1}`;
+}
+
+// Name of what `mode` analyzes in a file with `count` channels. A mono file
+// has no left, right or side to pick, so every mode reads its one channel.
+export function analyzedChannel(mode: ChannelMode, count: number): string {
+  if (count < 2) return channelName(0, count);
+  switch (mode) {
+    case "left":
+    case "per-channel":
+      return channelName(0, count);
+    case "right":
+      return channelName(1, count);
+    case "side":
+      return "side";
+    default:
+      return "mid";
+  }
+}
+
+// "mid" -> "Mid (L+R)", "right" -> "Right channel".
+export function channelLabel(channel: string): string {
+  if (channel === "mid") return "Mid (L+R)";
+  if (channel === "side") return "Side (L-R)";
+  if (channel === "mono") return "Mono";
+  const name = `${channel.charAt(0).toUpperCase()}${channel.slice(1)}`;
+  return channel.startsWith("channel") ? name : `${name} channel`;
+}
+
+// Samples to analyze for `mode`: one channel, or the mid (L+R) or side (L-R)
+// mix at the level of a single channel. "per-channel" starts with the first.
+// Params saved before the channel mode existed analyze the mid.
+export function selectChannel(channels: Float32Array[], mode: ChannelMode): Float32Array {
+  const [left, right] = channels;
+  if (!right) return left;
+
+  switch (mode) {
+    case "left":
+    case "per-channel":
+      return left;
+    case "right":
+      return right;
+    case "side":
+      return Float32Array.from(left, (sample, i) => (sample - right[i]) / 2);
+    default: {
+      // Every channel of a surround file counts towards the mid.
+      const mid = new Float32Array(left.length);
+      for (const channel of channels) {
+        for (let i = 0; i < mid.length; i++) mid[i] += channel[i];
+      }
+      for (let i = 0; i < mid.length; i++) mid[i] /= channels.length;
+      return mid;
+    }
+  }
+}
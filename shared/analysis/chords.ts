@@ -0,0 +1,200 @@
+import type { Chord, KeySegment } from "../schema";
+import { computeChromagram, segmentChroma, type Chromagram } from "./chroma";
+import { posteriors, stickyTransitionMatrix, viterbi } from "./hmm";
+import { activeKey, MODE_STEPS, parseKey } from "./key";
+import { A4_FREQUENCY, FLAT_PITCH_CLASS_NAMES, PITCH_CLASS_NAMES, midiToNote } from "./notes";
+
+export const CHORD_INTERVALS: Record<string, number[]> = {
+  "": [0, 4, 7],
+  "m": [0, 3, 7],
+  "7": [0, 4, 7, 10],
+  "maj7": [0, 4, 7, 11],
+  "m7": [0, 3, 7, 10],
+  "dim": [0, 3, 6],
+  "aug": [0, 4, 8],
+  "sus2": [0, 2, 7],
+  "sus4": [0, 5, 7],
+  "add9": [0, 4, 7, 14],
+};
+
+// How Strudel's chord() spells each type. The default ireal dictionary is
+// keyed by iReal symbols ("-7", "^7", "o", "+", "2", "sus") and also takes
+// "m" for "-" and "aug" for "+", which are what the triads, lefthand and
+// guidetones dictionaries use.
+export const STRUDEL_CHORD_SYMBOLS: Record<string, string> = {
+  "": "",
+  "m": "m",
+  "7": "7",
+  "maj7": "^7",
+  "m7": "m7",
+  "dim": "o",
+  "aug": "aug",
+  "sus2": "2",
+  "sus4": "sus",
+  "add9": "add9",
+};
+
+const DETECTED_CHORD_TYPES = ["", "m", "7", "maj7", "m7", "dim", "aug", "sus2", "sus4"];
+
+const CHORD_SELF_TRANSITION = 0.7;
+const EMISSION_SHARPNESS = 12;
+const DIATONIC_BONUS = 0.04;
+const SILENCE_RATIO = 0.05;
+const NO_CHORD_WEIGHT = 0.8;
+// Natural minor plus the leading tone of harmonic minor, for V and V7.
+const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10, 11];
+
+interface ChordState {
+  name: string;
+  root: number;
+  suffix: string;
+  template: Float64Array;
+}
+
+export function buildChordNotes(root: number, suffix: string, octave: number = 3): string[] {
+  const intervals = CHORD_INTERVALS[suffix] ?? CHORD_INTERVALS[""];
+  const rootMidi = (octave + 1) * 12 + (((root % 12) + 12) % 12);
+  return intervals.map(interval => midiToNote(rootMidi + interval));
+}
+
+export function parseChordName(name: string): { root: string; suffix: string } {
+  const match = name.match(/^([A-G][#b]?)(.*)$/);
+  if (!match) return { root: "C", suffix: "" };
+  return { root: match[1], suffix: match[2] };
+}
+
+// "A#m7" -> "Bbm7" when `flats` is set.
+export function spellChordName(name: string, flats: boolean): string {
+  const { root, suffix } = parseChordName(name);
+  const pitchClass = PITCH_CLASS_NAMES.indexOf(root);
+  return flats && pitchClass >= 0 ? `${FLAT_PITCH_CLASS_NAMES[pitchClass]}${suffix}` : name;
+}
+
+// "A#m7" -> "A#m7", "Cmaj7" -> "C^7", "Dsus2" -> "D2". Unknown suffixes are passed through.
+export function toStrudelChordSymbol(name: string): string {
+  const { root, suffix } = parseChordName(name);
+  return `${root}${STRUDEL_CHORD_SYMBOLS[suffix] ?? suffix}`;
+}
+
+function buildChordStates(): ChordState[] {
+  const states: ChordState[] = [];
+  for (const suffix of DETECTED_CHORD_TYPES) {
+    for (let root = 0; root < 12; root++) {
+      const template = new Float64Array(12);
+      for (const interval of CHORD_INTERVALS[suffix]) {
+        template[(root + interval) % 12] = 1;
+      }
+      const norm = Math.sqrt(template.reduce((sum, v) => sum + v * v, 0));
+      states.push({
+        name: `${PITCH_CLASS_NAMES[root]}${suffix}`,
+        root,
+        suffix,
+        template: template.map(v => v / norm),
+      });
+    }
+  }
+  return states;
+}
+
+const CHORD_STATES = buildChordStates();
+
+function isDiatonic(state: ChordState, key: string | undefined): boolean {
+  if (!key) return false;
+  const { root, mode } = parseKey(key);
+  const scale = mode === "minor" ? MINOR_SCALE : MODE_STEPS[mode];
+  return CHORD_INTERVALS[state.suffix].every(interval =>
+    scale.includes((state.root + interval - root + 120) % 12)
+  );
+}
+
+// Chroma template matching over the beat grid, smoothed with a sticky HMM.
+// The last state is "no chord", which wins on silent or atonal beats. Chords
+// in the key active at each beat get a bonus. Pass `chromagram` when it has
+// already been computed for the same audio.
+export function extractChords(
+  data: Float32Array,
+  sampleRate: number,
+  beats: number[],
+  keySegments: KeySegment[] = [],
+  reference: number = A4_FREQUENCY,
+  chromagram: Chromagram = computeChromagram(data, sampleRate, reference)
+): Chord[] {
+  return chordsFromChromagram(chromagram, data.length / sampleRate, beats, keySegments);
+}
+
+// extractChords on a chromagram of `duration` seconds of audio, for callers
+// that no longer hold the samples.
+export function chordsFromChromagram(
+  chromagram: Chromagram,
+  duration: number,
+  beats: number[],
+  keySegments: KeySegment[] = []
+): Chord[] {
+  const boundaries = beats.filter(t => t >= 0 && t < duration);
+  if (boundaries.length === 0 || boundaries[0] > 0) boundaries.unshift(0);
+  boundaries.push(duration);
+  if (boundaries.length < 2) return [];
+
+  const { chroma, energy } = segmentChroma(chromagram, boundaries);
+  const maxEnergy = Math.max(0, ...energy);
+
+  const diatonicByKey = new Map<string | undefined, boolean[]>();
+  const diatonicAt = (index: number) => {
+    const key = activeKey(keySegments, (boundaries[index] + boundaries[index + 1]) / 2);
+    if (!diatonicByKey.has(key)) diatonicByKey.set(key, CHORD_STATES.map(state => isDiatonic(state, key)));
+    return diatonicByKey.get(key)!;
+  };
+  const stateCount = CHORD_STATES.length + 1;
+  const noChord = CHORD_STATES.length;
+
+  const emissions = chroma.map((segment, index) => {
+    const likelihoods = new Float64Array(stateCount);
+    const diatonic = diatonicAt(index);
+    const silent = maxEnergy === 0 || energy[index] < maxEnergy * SILENCE_RATIO;
+
+    let flatness = 0;
+    for (let i = 0; i < 12; i++) {
+      flatness += segment[i] / Math.sqrt(12);
+    }
+
+    for (let s = 0; s < CHORD_STATES.length; s++) {
+      let similarity = 0;
+      for (let i = 0; i < 12; i++) {
+        similarity += segment[i] * CHORD_STATES[s].template[i];
+      }
+      if (diatonic[s]) similarity += DIATONIC_BONUS;
+      likelihoods[s] = silent ? 0 : Math.exp(EMISSION_SHARPNESS * similarity);
+    }
+    likelihoods[noChord] = silent ? 1 : Math.exp(EMISSION_SHARPNESS * NO_CHORD_WEIGHT * flatness);
+    return likelihoods;
+  });
+
+  const transition = stickyTransitionMatrix(stateCount, CHORD_SELF_TRANSITION);
+  const path = viterbi(emissions, transition);
+  const posterior = posteriors(emissions, transition);
+
+  const chords: Chord[] = [];
+  let segmentStart = 0;
+  for (let i = 1; i <= path.length; i++) {
+    if (i < path.length && path[i] === path[segmentStart]) continue;
+
+    const state = path[segmentStart];
+    if (state !== noChord) {
+      let confidence = 0;
+      for (let j = segmentStart; j < i; j++) {
+        confidence += posterior[j][state];
+      }
+      const { root, suffix, name } = CHORD_STATES[state];
+      chords.push({
+        notes: buildChordNotes(root, suffix),
+        name,
+        time: boundaries[segmentStart],
+        duration: boundaries[i] - boundaries[segmentStart],
+        confidence: confidence / (i - segmentStart),
+      });
+    }
+    segmentStart = i;
+  }
+
+  return chords;
+}
@@ -0,0 +1,94 @@
+import { hannWindow, magnitudeSpectrum, nextPowerOfTwo } from "./fft";
+import { A4_FREQUENCY, frequencyToMidi } from "./notes";
+
+const CHROMA_MIN_FREQUENCY = 65;
+const CHROMA_MAX_FREQUENCY = 2000;
+
+export interface Chromagram {
+  times: number[];
+  frames: Float64Array[];
+  energy: number[];
+  hopDuration: number;
+}
+
+export function computeChromagram(
+  data: Float32Array,
+  sampleRate: number,
+  reference: number = A4_FREQUENCY
+): Chromagram {
+  // Long frames keep neighbouring semitones apart down to the bass register.
+  const frameSize = nextPowerOfTwo(Math.round(sampleRate * 0.3));
+  const hopSize = frameSize / 4;
+  const window = hannWindow(frameSize);
+
+  const binPitchClass = new Int8Array(frameSize / 2 + 1).fill(-1);
+  for (let k = 1; k <= frameSize / 2; k++) {
+    const frequency = (k * sampleRate) / frameSize;
+    if (frequency < CHROMA_MIN_FREQUENCY || frequency > CHROMA_MAX_FREQUENCY) continue;
+    const midi = frequencyToMidi(frequency, reference);
+    binPitchClass[k] = ((midi % 12) + 12) % 12;
+  }
+
+  const times: number[] = [];
+  const frames: Float64Array[] = [];
+  const energy: number[] = [];
+
+  for (let i = 0; i + frameSize <= data.length; i += hopSize) {
+    const magnitudes = magnitudeSpectrum(data.subarray(i, i + frameSize), window);
+    const chroma = new Float64Array(12);
+    let frameEnergy = 0;
+
+    for (let k = 1; k < magnitudes.length; k++) {
+      const pitchClass = binPitchClass[k];
+      if (pitchClass < 0) continue;
+      chroma[pitchClass] += magnitudes[k] * magnitudes[k];
+      frameEnergy += magnitudes[k] * magnitudes[k];
+    }
+
+    times.push((i + frameSize / 2) / sampleRate);
+    frames.push(chroma);
+    energy.push(Math.sqrt(frameEnergy) / frameSize);
+  }
+
+  return { times, frames, energy, hopDuration: hopSize / sampleRate };
+}
+
+export function normalizeChroma(chroma: Float64Array): Float64Array {
+  let norm = 0;
+  for (let i = 0; i < 12; i++) {
+    norm += chroma[i] * chroma[i];
+  }
+  norm = Math.sqrt(norm);
+  return norm > 0 ? chroma.map(v => v / norm) : chroma;
+}
+
+// Averages the chroma frames whose centres fall inside each [start, end) segment.
+export function segmentChroma(
+  chromagram: Chromagram,
+  boundaries: number[]
+): { chroma: Float64Array[]; energy: number[] } {
+  const chroma: Float64Array[] = [];
+  const energy: number[] = [];
+  let frame = 0;
+
+  for (let s = 0; s < boundaries.length - 1; s++) {
+    const sum = new Float64Array(12);
+    let energySum = 0;
+    let count = 0;
+
+    while (frame < chromagram.times.length && chromagram.times[frame] < boundaries[s]) frame++;
+    for (let f = frame; f < chromagram.times.length && chromagram.times[f] < boundaries[s + 1]; f++) {
+      const frameChroma = chromagram.frames[f];
+      for (let i = 0; i < 12; i++) {
+        sum[i] += frameChroma[i];
+      }
+      energySum += chromagram.energy[f];
+      count++;
+    }
+
+    chroma.push(normalizeChroma(sum.map(v => Math.sqrt(v))));
+    energy.push(count > 0 ? energySum / count : 0);
+  }
+
+  return { chroma, energy };
+}
@@ -0,0 +1,59 @@
+import { MODE_STEPS, parseKey } from "./key";
+import { PITCH_CLASS_NAMES } from "./notes";
+
+// Out-of-scale semitones as an altered zero-based degree, spelled the way
+// they are usually read: flats in major (b3, b7) apart from the raised
+// fourth, sharps in minor (raised sixth and seventh) apart from b2 and b5.
+// The other modes lower the degree above.
+type AlteredDegree = [degree: number, accidental: "#" | "b"];
+
+const MAJOR_ALTERED: Record<number, AlteredDegree> = {
+  1: [1, "b"], 3: [2, "b"], 6: [3, "#"], 8: [5, "b"], 10: [6, "b"],
+};
+const MINOR_ALTERED: Record<number, AlteredDegree> = {
+  1: [1, "b"], 4: [2, "#"], 6: [4, "b"], 9: [5, "#"], 11: [6, "#"],
+};
+
+function alteredDegree(steps: number[], semitone: number): AlteredDegree {
+  const above = steps.findIndex(step => step > semitone);
+  return [above < 0 ? steps.length : above, "b"];
+}
+
+// Strudel scale name for a key, anchored at `octave` so degree 0 is the
+// tonic in that octave: "Am" -> "A3:minor", "D dorian" -> "D4:dorian".
+export function scaleName(key: string, octave: number): string {
+  const { root, mode } = parseKey(key);
+  return `${PITCH_CLASS_NAMES[root]}${octave}:${mode}`;
+}
+
+// MIDI note of the tonic in the scale returned by scaleName().
+export function tonicMidi(key: string, octave: number): number {
+  return parseKey(key).root + (octave + 1) * 12;
+}
+
+// Octave whose tonic sits closest below the middle of the given notes, so
+// most degrees come out small and positive.
+export function scaleOctave(key: string, midiNotes: number[]): number {
+  if (midiNotes.length === 0) return 4;
+  const sorted = [...midiNotes].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  return Math.floor((median - parseKey(key).root) / 12) - 1;
+}
+
+// Scale degree of a MIDI note relative to `tonic` for Strudel's
+// `n(...).scale(...)`, e.g. "4", "-3" or "2b".
+export function midiToDegree(midi: number, key: string, tonic: number): string {
+  const { mode } = parseKey(key);
+  const steps = MODE_STEPS[mode];
+
+  const offset = midi - tonic;
+  const octave = Math.floor(offset / 12);
+  const semitone = offset - octave * 12;
+
+  const degree = steps.indexOf(semitone);
+  if (degree >= 0) return String(octave * 7 + degree);
+
+  const [altered, accidental] =
+    mode === "major" ? MAJOR_ALTERED[semitone] : mode === "minor" ? MINOR_ALTERED[semitone] : alteredDegree(steps, semitone);
+  return `${octave * 7 + altered}${accidental}`;
+}
@@ -0,0 +1,228 @@
+import type { DrumHit, DrumInstrument } from "../schema";
+import { beatToTime, timeToBeat } from "./beats";
+import { hannWindow, magnitudeSpectrum } from "./fft";
+import { fluxToEnvelope, pickOnsets, type OnsetEnvelope } from "./onset";
+import { getSubdivisions } from "./quantize";
+import { swingBeat, unswingBeat } from "./swing";
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const MAX_FREQUENCY = 16000;
+// Median filter lengths for the separation: along time (frames) for the
+// harmonic part, along frequency (bins) for the percussive part.
+const HARMONIC_KERNEL = 17;
+const PERCUSSIVE_KERNEL = 17;
+const LOG_COMPRESSION = 1000;
+
+const DRUM_BANDS: Record<DrumInstrument, [number, number]> = {
+  bd: [30, 150],
+  sd: [200, 3000],
+  hh: [6000, MAX_FREQUENCY],
+};
+
+const ONSET_THRESHOLD = 0.2;
+const MIN_HIT_SPACING = 0.06;
+// A band whose loudest percussive frame has less energy than this share of an
+// average frame of the whole mix holds no drum, only note attacks.
+const BAND_GATE = 0.3;
+// Onsets quieter than this share of their band's loudest frame are bleed
+// from another drum.
+const MIN_BAND_LEVEL = 0.2;
+const ATTACK_FRAMES = 2;
+// Hits in different bands this close together belong to the same stroke.
+const COINCIDENCE_SECONDS = 0.03;
+
+export interface Spectrogram {
+  frames: Float32Array[];
+  frameRate: number;
+  binFrequency: number;
+}
+
+// Magnitude STFT up to MAX_FREQUENCY, frames centred on f * hop.
+function computeSpectrogram(data: Float32Array, sampleRate: number): Spectrogram {
+  const window = hannWindow(FRAME_SIZE);
+  const binFrequency = sampleRate / FRAME_SIZE;
+  const bins = Math.min(FRAME_SIZE / 2, Math.floor(MAX_FREQUENCY / binFrequency)) + 1;
+  const frameCount = Math.floor(data.length / HOP_SIZE) + 1;
+  const frame = new Float64Array(FRAME_SIZE);
+  const frames: Float32Array[] = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * HOP_SIZE - FRAME_SIZE / 2;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const index = start + i;
+      frame[i] = index >= 0 && index < data.length ? data[index] : 0;
+    }
+    frames.push(Float32Array.from(magnitudeSpectrum(frame, window).subarray(0, bins)));
+  }
+
+  return { frames, frameRate: sampleRate / HOP_SIZE, binFrequency };
+}
+
+// Median of the first `count` entries, sorting them in place.
+function median(values: Float64Array, count: number): number {
+  for (let i = 1; i < count; i++) {
+    const value = values[i];
+    let j = i - 1;
+    while (j >= 0 && values[j] > value) {
+      values[j + 1] = values[j];
+      j--;
+    }
+    values[j + 1] = value;
+  }
+  return values[count >> 1];
+}
+
+// Median-filtering harmonic/percussive separation (Fitzgerald 2010): sustained
+// partials are smooth along time, drum hits are smooth along frequency. Keeps
+// the percussive part with a soft Wiener mask.
+export function separatePercussive({ frames, frameRate, binFrequency }: Spectrogram): Spectrogram {
+  const frameCount = frames.length;
+  const bins = frames[0]?.length ?? 0;
+  const scratch = new Float64Array(Math.max(HARMONIC_KERNEL, PERCUSSIVE_KERNEL));
+  const harmonicRadius = HARMONIC_KERNEL >> 1;
+  const percussiveRadius = PERCUSSIVE_KERNEL >> 1;
+  const percussive: Float32Array[] = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    const out = new Float32Array(bins);
+    const firstFrame = Math.max(0, f - harmonicRadius);
+    const lastFrame = Math.min(frameCount - 1, f + harmonicRadius);
+
+    for (let k = 0; k < bins; k++) {
+      let count = 0;
+      for (let g = firstFrame; g <= lastFrame; g++) scratch[count++] = frames[g][k];
+      const harmonic = median(scratch, count);
+
+      count = 0;
+      const lastBin = Math.min(bins - 1, k + percussiveRadius);
+      for (let b = Math.max(0, k - percussiveRadius); b <= lastBin; b++) scratch[count++] = frames[f][b];
+      const percussiveLevel = median(scratch, count);
+
+      const h2 = harmonic * harmonic;
+      const p2 = percussiveLevel * percussiveLevel;
+      out[k] = h2 + p2 > 0 ? (frames[f][k] * p2) / (h2 + p2) : 0;
+    }
+    percussive.push(out);
+  }
+
+  return { frames: percussive, frameRate, binFrequency };
+}
+
+interface BandActivity {
+  onsets: OnsetEnvelope;
+  // Percussive energy per frame, scaled so the band's loudest frame is 1.
+  energy: Float64Array;
+  // Energy of that loudest frame before scaling.
+  peak: number;
+}
+
+// Onset envelope and energy of one frequency band. Frame 0 is compared with
+// silence so a hit right at the start is still an onset.
+function bandActivity(
+  { frames, frameRate, binFrequency }: Spectrogram,
+  [minFrequency, maxFrequency]: [number, number]
+): BandActivity {
+  const bins = frames[0]?.length ?? 0;
+  const minBin = Math.max(1, Math.floor(minFrequency / binFrequency));
+  const maxBin = Math.min(bins - 1, Math.ceil(maxFrequency / binFrequency));
+  const flux = new Float64Array(frames.length);
+  const energy = new Float64Array(frames.length);
+  let peak = 0;
+
+  for (let f = 0; f < frames.length; f++) {
+    let sum = 0;
+    for (let k = minBin; k <= maxBin; k++) {
+      const magnitude = frames[f][k];
+      const increase =
+        Math.log1p((LOG_COMPRESSION * magnitude) / FRAME_SIZE) -
+        (f > 0 ? Math.log1p((LOG_COMPRESSION * frames[f - 1][k]) / FRAME_SIZE) : 0);
+      if (increase > 0) sum += increase;
+      energy[f] += magnitude * magnitude;
+    }
+    flux[f] = sum;
+    peak = Math.max(peak, energy[f]);
+  }
+  if (peak > 0) for (let f = 0; f < energy.length; f++) energy[f] /= peak;
+
+  return { onsets: fluxToEnvelope(flux, frameRate), energy, peak };
+}
+
+// Energy of an average frame over every bin.
+function meanFrameEnergy({ frames }: Spectrogram): number {
+  let total = 0;
+  for (const frame of frames) {
+    for (let k = 0; k < frame.length; k++) total += frame[k] * frame[k];
+  }
+  return frames.length > 0 ? total / frames.length : 0;
+}
+
+// Strongest energy around an onset; the attack can fall in the frame before
+// or after the flux peak.
+function energyAt(energy: Float64Array, frameRate: number, time: number): number {
+  const frame = Math.round(time * frameRate);
+  let level = 0;
+  for (let f = Math.max(0, frame - ATTACK_FRAMES); f <= Math.min(energy.length - 1, frame + ATTACK_FRAMES); f++) {
+    level = Math.max(level, energy[f]);
+  }
+  return level;
+}
+
+// Kick, snare and hi-hat hits from the percussive part of the signal. Each
+// band is onset-detected on its own. Other drums bleed into a band far more
+// quietly than its own drum, so onsets well below the band's loudest hit are
+// dropped. Snares also cover the hi-hat band with noise, so hi-hat onsets on a
+// snare stroke belong to the snare.
+export function detectDrums(data: Float32Array, sampleRate: number): DrumHit[] {
+  if (data.length < FRAME_SIZE) return [];
+
+  const spectrogram = computeSpectrogram(data, sampleRate);
+  const percussive = separatePercussive(spectrogram);
+  const gate = meanFrameEnergy(spectrogram) * BAND_GATE;
+  const { frameRate } = percussive;
+  const bands = {
+    bd: bandActivity(percussive, DRUM_BANDS.bd),
+    sd: bandActivity(percussive, DRUM_BANDS.sd),
+    hh: bandActivity(percussive, DRUM_BANDS.hh),
+  };
+
+  const level = (instrument: DrumInstrument, time: number) => energyAt(bands[instrument].energy, frameRate, time);
+  const onsetsOf = (instrument: DrumInstrument) =>
+    bands[instrument].peak < gate ? [] : pickOnsets(bands[instrument].onsets, ONSET_THRESHOLD, MIN_HIT_SPACING);
+  const near = (times: number[], time: number) => times.some(t => Math.abs(t - time) <= COINCIDENCE_SECONDS);
+
+  const kicks = onsetsOf("bd").filter(time => level("bd", time) >= MIN_BAND_LEVEL);
+  // A kick's beater fills the snare band as well; on a kick, only count a
+  // snare when its wires show up in the hi-hat band too.
+  const snares = onsetsOf("sd").filter(time => {
+    return level("sd", time) >= MIN_BAND_LEVEL && (!near(kicks, time) || level("hh", time) >= MIN_BAND_LEVEL);
+  });
+  const hihats = onsetsOf("hh").filter(time => !near(snares, time));
+
+  // Velocity follows amplitude rather than energy.
+  const hits: DrumHit[] = [
+    ...kicks.map(time => ({ instrument: "bd" as const, time, velocity: Math.sqrt(level("bd", time)) })),
+    ...snares.map(time => ({ instrument: "sd" as const, time, velocity: Math.sqrt(level("sd", time)) })),
+    ...hihats.map(time => ({ instrument: "hh" as const, time, velocity: Math.sqrt(level("hh", time)) })),
+  ];
+  return hits.sort((a, b) => a.time - b.time);
+}
+
+// Snaps hits to subdivisions of the detected beats and merges hits on the same
+// drum that land on the same step. `swing` delays the off-beats as in
+// quantizeNotes.
+export function quantizeDrumHits(hits: DrumHit[], beats: number[], quantizeValue: string, swing: number = 1): DrumHit[] {
+  if (beats.length < 2) return hits;
+
+  const subdivisions = getSubdivisions(quantizeValue);
+  const merged = new Map<string, DrumHit>();
+  for (const hit of hits) {
+    const step = Math.round(unswingBeat(timeToBeat(hit.time, beats), swing) * subdivisions);
+    const key = `${hit.instrument}:${step}`;
+    const existing = merged.get(key);
+    if (!existing || (hit.velocity ?? 0) > (existing.velocity ?? 0)) {
+      merged.set(key, { ...hit, time: Math.max(0, beatToTime(swingBeat(step / subdivisions, swing), beats)) });
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,132 @@
+// Small dense-HMM helpers shared by the chord and key trackers. Emissions are
+// per-frame likelihoods (not necessarily normalized); `transition[from][to]`
+// holds transition probabilities.
+
+export function stickyTransitionMatrix(stateCount: number, selfProbability: number): Float64Array[] {
+  const switchProbability = stateCount > 1 ? (1 - selfProbability) / (stateCount - 1) : 0;
+  return Array.from({ length: stateCount }, (_, from) => {
+    const row = new Float64Array(stateCount).fill(switchProbability);
+    row[from] = stateCount > 1 ? selfProbability : 1;
+    return row;
+  });
+}
+
+export function viterbi(emissions: Float64Array[], transition: Float64Array[]): number[] {
+  const frameCount = emissions.length;
+  if (frameCount === 0) return [];
+  const stateCount = transition.length;
+  const floor = 1e-300;
+
+  const logTransition = transition.map(row => row.map(p => Math.log(p + floor)));
+  let scores = new Float64Array(stateCount);
+  for (let s = 0; s < stateCount; s++) {
+    scores[s] = -Math.log(stateCount) + Math.log(emissions[0][s] + floor);
+  }
+
+  const backPointers: Int32Array[] = [new Int32Array(stateCount)];
+  for (let t = 1; t < frameCount; t++) {
+    const next = new Float64Array(stateCount);
+    const pointers = new Int32Array(stateCount);
+    for (let to = 0; to < stateCount; to++) {
+      let best = -Infinity;
+      let bestFrom = 0;
+      for (let from = 0; from < stateCount; from++) {
+        const score = scores[from] + logTransition[from][to];
+        if (score > best) {
+          best = score;
+          bestFrom = from;
+        }
+      }
+      next[to] = best + Math.log(emissions[t][to] + floor);
+      pointers[to] = bestFrom;
+    }
+    scores = next;
+    backPointers.push(pointers);
+  }
+
+  let state = 0;
+  for (let s = 1; s < stateCount; s++) {
+    if (scores[s] > scores[state]) state = s;
+  }
+
+  const path = new Array<number>(frameCount);
+  for (let t = frameCount - 1; t >= 0; t--) {
+    path[t] = state;
+    state = backPointers[t][state];
+  }
+  return path;
+}
+
+// Scaled forward-backward; returns P(state | all observations) per frame.
+export function posteriors(emissions: Float64Array[], transition: Float64Array[]): Float64Array[] {
+  const frameCount = emissions.length;
+  const stateCount = transition.length;
+  if (frameCount === 0) return [];
+
+  const forward: Float64Array[] = [];
+  let previous = new Float64Array(stateCount);
+  for (let s = 0; s < stateCount; s++) {
+    previous[s] = emissions[0][s] / stateCount;
+  }
+  scaleInPlace(previous);
+  forward.push(previous);
+
+  for (let t = 1; t < frameCount; t++) {
+    const current = new Float64Array(stateCount);
+    for (let from = 0; from < stateCount; from++) {
+      const weight = previous[from];
+      if (weight === 0) continue;
+      const row = transition[from];
+      for (let to = 0; to < stateCount; to++) {
+        current[to] += weight * row[to];
+      }
+    }
+    for (let s = 0; s < stateCount; s++) {
+      current[s] *= emissions[t][s];
+    }
+    scaleInPlace(current);
+    forward.push(current);
+    previous = current;
+  }
+
+  const result: Float64Array[] = new Array(frameCount);
+  let backward = new Float64Array(stateCount).fill(1);
+  for (let t = frameCount - 1; t >= 0; t--) {
+    const posterior = new Float64Array(stateCount);
+    for (let s = 0; s < stateCount; s++) {
+      posterior[s] = forward[t][s] * backward[s];
+    }
+    scaleInPlace(posterior);
+    result[t] = posterior;
+
+    if (t > 0) {
+      const next = new Float64Array(stateCount);
+      for (let from = 0; from < stateCount; from++) {
+        const row = transition[from];
+        let sum = 0;
+        for (let to = 0; to < stateCount; to++) {
+          sum += row[to] * emissions[t][to] * backward[to];
+        }
+        next[from] = sum;
+      }
+      scaleInPlace(next);
+      backward = next;
+    }
+  }
+
+  return result;
+}
+
+function scaleInPlace(values: Float64Array): void {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+  }
+  if (sum > 0) {
+    for (let i = 0; i < values.length; i++) {
+      values[i] /= sum;
+    }
+  } else {
+    values.fill(1 / values.length);
+  }
+}
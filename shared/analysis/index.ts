@@ -0,0 +1,234 @@
+import type { AnalysisParams, AnalysisResult, DrumHit, Note } from "../schema";
+import { assembleResult } from "./assemble";
+import { extractBass } from "./bass";
+import { analyzedChannel, channelLabel, channelName, selectChannel } from "./channels";
+import { extractChords } from "./chords";
+import { computeChromagram } from "./chroma";
+import { detectDrums } from "./drums";
+import { replaceKey } from "./key";
+import { extractMelody } from "./melody";
+import { extractPolyphonic } from "./polyphonic";
+import { stageReporter, type AnalyzeOptions } from "./progress";
+import { clampRegion, regionSamples } from "./region";
+import { generateStrudelCode, strudelOptionsFromParams } from "./strudel";
+import { estimateTuning, referencePitch as tuningReference } from "./tuning";
+import { beatTrackingOptionsFromParams, trackBeats } from "./tempo";
+import { extractWaveformData } from "./waveform";
+
+export * from "./notes";
+export { detectPitch, trackPitchAutocorrelation, type PitchFrame } from "./pitch";
+export { trackPitchYin, trackPitchPyin, yinPitch } from "./yin";
+export {
+  detectTempo,
+  trackBeats,
+  trackBeatsFromOnsets,
+  beatTrackingOptionsFromParams,
+  computeTempogram,
+  estimateTempo,
+  createBeatGrid,
+  type BeatTrackingResult,
+} from "./tempo";
+export { spectralFlux, rawSpectralFlux, fluxToEnvelope, pickOnsets, type OnsetEnvelope } from "./onset";
+export { detectDrums, quantizeDrumHits, separatePercussive } from "./drums";
+export { detectMeter, METERS, type MeterEstimate } from "./meter";
+export { extendBeats, timeToBeat, beatToTime } from "./beats";
+export {
+  detectKey,
+  rankKeys,
+  keyCandidates,
+  trackKeys,
+  activeKey,
+  dominantKey,
+  replaceKey,
+  usesFlats,
+  parseKey,
+  keyName,
+  keyNames,
+  canonicalKey,
+  getKeyTransposition,
+  KEY_MODES,
+  type KeyMode,
+  type KeyOptions,
+  type KeyProfileName,
+} from "./key";
+export { extractMelody, trackPitch, segmentNotes, noteLimit, MAX_MELODY_NOTES, MAX_POLYPHONIC_NOTES } from "./melody";
+export { extractPolyphonic } from "./polyphonic";
+export { extractBass, lowRegister, MIN_BASS_FREQUENCY, MAX_BASS_FREQUENCY } from "./bass";
+export {
+  extractChords,
+  chordsFromChromagram,
+  buildChordNotes,
+  parseChordName,
+  spellChordName,
+  toStrudelChordSymbol,
+  CHORD_INTERVALS,
+  STRUDEL_CHORD_SYMBOLS,
+} from "./chords";
+export { estimateGroove, swingBeat, unswingBeat } from "./swing";
+export { analyzedChannel, channelLabel, channelName, selectChannel } from "./channels";
+export { clampRegion, regionSamples } from "./region";
+export { estimateTuning, referencePitch } from "./tuning";
+export { computeChromagram, segmentChroma, type Chromagram } from "./chroma";
+export { quantizeNotes, getSubdivisions } from "./quantize";
+export { generateStrudelCode, strudelOptionsFromParams, type StrudelOptions } from "./strudel";
+export { midiToDegree, scaleName } from "./degrees";
+export { extractWaveformData } from "./waveform";
+export { assembleResult, type AudioFeatures } from "./assemble";
+export { AnalysisAbortedError, type AnalyzeOptions } from "./progress";
+export {
+  analyzeStream,
+  chunkChannels,
+  STREAMING_MIN_SECONDS,
+  type StreamAnalyzeOptions,
+  type StreamPartial,
+} from "./stream";
+
+// Single entry point shared by the single-file page, the batch page and any
+// server-side caller, so the same samples always produce the same result.
+// Yields between stages so an abort request can be picked up mid-run.
+export async function analyze(
+  samples: Float32Array,
+  sampleRate: number,
+  params: AnalysisParams,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> {
+  const stage = stageReporter(options);
+
+  await stage("analyzing", 20, "Computing waveform...");
+  const waveformData = extractWaveformData(samples);
+
+  await stage("analyzing", 25, "Tracking tempo and beats...");
+  const tracking = trackBeats(samples, sampleRate, beatTrackingOptionsFromParams(params));
+
+  await stage("analyzing", 35, "Estimating tuning...");
+  const referencePitch = Math.round(tuningReference(estimateTuning(samples, sampleRate)) * 10) / 10;
+
+  await stage("detecting", 45, params.polyphonic ? "Estimating simultaneous pitches..." : "Detecting melody pitches...");
+  const { notes: melody, pitchClassHistogram } = params.polyphonic
+    ? extractPolyphonic(samples, sampleRate, params, referencePitch)
+    : extractMelody(samples, sampleRate, params, referencePitch);
+
+  let bass: Note[] | undefined;
+  if (params.extractBass) {
+    await stage("detecting", 60, "Extracting bass line...");
+    bass = extractBass(samples, sampleRate, params, referencePitch);
+  }
+
+  await stage("detecting", 70, "Tracking key and recognizing chords...");
+  const chromagram = computeChromagram(samples, sampleRate, referencePitch);
+
+  let drums: DrumHit[] | undefined;
+  if (params.detectDrums) {
+    await stage("detecting", 80, "Detecting drum hits...");
+    drums = detectDrums(samples, sampleRate);
+  }
+
+  await stage("generating", 90, "Generating Strudel code...");
+  return assembleResult({
+    duration: samples.length / sampleRate,
+    sampleRate,
+    waveformData,
+    tracking,
+    referencePitch,
+    melody,
+    pitchClassHistogram,
+    bass,
+    chromagram,
+    drums,
+  }, params);
+}
+
+// Analyzes decoded audio with one array of samples per channel, following
+// params.channelMode and params.region. In per-channel mode every channel
+// goes through the whole pipeline; the first provides the result and the
+// others are added as layers of their own.
+export async function analyzeChannels(
+  fullChannels: Float32Array[],
+  sampleRate: number,
+  params: AnalysisParams,
+  { onProgress, signal }: AnalyzeOptions = {}
+): Promise<AnalysisResult> {
+  const region = clampRegion(params.region, (fullChannels[0]?.length ?? 0) / sampleRate);
+  const channels = fullChannels.map(samples => regionSamples(samples, sampleRate, region));
+  const channel = analyzedChannel(params.channelMode, channels.length);
+  if (params.channelMode !== "per-channel" || channels.length < 2) {
+    const result = await analyze(selectChannel(channels, params.channelMode), sampleRate, params, { onProgress, signal });
+    return { ...result, channel, region };
+  }
+
+  const results: AnalysisResult[] = [];
+  for (let i = 0; i < channels.length; i++) {
+    const name = channelName(i, channels.length);
+    results.push(await analyze(channels[i], sampleRate, params, {
+      signal,
+      onProgress: status => onProgress?.({
+        ...status,
+        progress: Math.round((i * 100 + status.progress) / channels.length),
+        message: `${channelLabel(name)}: ${status.message}`,
+      }),
+    }));
+  }
+
+  const [result, ...others] = results;
+  const channelLayers = others.map((other, i) => ({
+    channel: channelName(i + 1, channels.length),
+    melody: other.melody,
+    bass: other.bass,
+  }));
+  const strudelCode = generateStrudelCode(
+    result.melody,
+    result.chords,
+    result.estimatedTempo ?? 120,
+    result.timeSignature ?? params.timeSignature,
+    result.beats,
+    {
+      ...strudelOptionsFromParams(params, result.detectedKey, result.groove),
+      keySegments: result.keySegments,
+      bass: result.bass,
+      drums: result.drums,
+      downbeats: result.downbeats,
+      channelLayers,
+    }
+  );
+  return { ...result, strudelCode, channel, channelLayers, region };
+}
+
+// Re-runs the key-dependent steps after the user picks another key than the
+// detected one: the detected key's stretches of the timeline take the new
+// key, chords are recognized again with its diatonic prior when the samples
+// (of the analyzed region alone) are at hand, and the code is regenerated.
+export function applyKey(
+  result: AnalysisResult,
+  key: string,
+  params: AnalysisParams,
+  samples?: Float32Array
+): AnalysisResult {
+  const keySegments = result.detectedKey && result.keySegments?.length
+    ? replaceKey(result.keySegments, result.detectedKey, key)
+    : [{ key, time: 0, duration: result.duration }];
+  const chords = samples
+    ? extractChords(
+        samples,
+        result.sampleRate,
+        result.beats,
+        keySegments,
+        result.referencePitch
+      )
+    : result.chords;
+  const strudelCode = generateStrudelCode(
+    result.melody,
+    chords,
+    result.estimatedTempo ?? 120,
+    result.timeSignature ?? params.timeSignature,
+    result.beats,
+    {
+      ...strudelOptionsFromParams(params, key, result.groove),
+      keySegments,
+      bass: result.bass,
+      drums: result.drums,
+      downbeats: result.downbeats,
+      channelLayers: result.channelLayers,
+    }
+  );
+  return { ...result, chords, strudelCode, detectedKey: key, keySegments };
+}
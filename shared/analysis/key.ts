@@ -0,0 +1,283 @@
+import type { AnalysisParams, KeyCandidate, KeySegment } from "../schema";
+import type { Chromagram } from "./chroma";
+import { stickyTransitionMatrix, viterbi } from "./hmm";
+import { FLAT_PITCH_CLASS_NAMES, PITCH_CLASS_NAMES } from "./notes";
+
+export type KeyProfileName = AnalysisParams["keyProfile"];
+
+// Major and minor key profiles, tonic first: Krumhansl & Kessler's probe-tone
+// ratings, Temperley's from the Kostka-Payne corpus, and Albrecht &
+// Shanahan's from a corpus of art music.
+const KEY_PROFILES: Record<KeyProfileName, { major: number[]; minor: number[] }> = {
+  krumhansl: {
+    major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+    minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+  },
+  temperley: {
+    major: [5.0, 2.0, 3.5, 2.0, 4.5, 4.0, 2.0, 4.5, 2.0, 3.5, 1.5, 4.0],
+    minor: [5.0, 2.0, 3.5, 4.5, 2.0, 4.0, 2.0, 4.5, 3.5, 2.0, 1.5, 4.0],
+  },
+  albrecht: {
+    major: [0.238, 0.006, 0.111, 0.006, 0.137, 0.094, 0.016, 0.214, 0.009, 0.080, 0.008, 0.081],
+    minor: [0.220, 0.006, 0.104, 0.123, 0.019, 0.103, 0.012, 0.214, 0.062, 0.022, 0.061, 0.052],
+  },
+};
+
+export const KEY_MODES = ["major", "minor", "dorian", "phrygian", "lydian", "mixolydian", "locrian"] as const;
+export type KeyMode = (typeof KEY_MODES)[number];
+
+export const MODE_STEPS: Record<KeyMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+};
+
+// Semitones from the major key sharing a mode's notes up to the mode's tonic:
+// D dorian has the notes of C major.
+const MODE_OFFSETS: Record<KeyMode, number> = {
+  major: 0, dorian: 2, phrygian: 4, lydian: 5, mixolydian: 7, minor: 9, locrian: 11,
+};
+
+// Key tracking looks at this much audio at a time, stepping by the hop. A key
+// has to hold for a few windows before the HMM lets it take over.
+const KEY_WINDOW_SECONDS = 8;
+const KEY_HOP_SECONDS = 2;
+const KEY_SELF_TRANSITION = 0.98;
+const KEY_EMISSION_SHARPNESS = 10;
+// Number of ranked keys kept as alternatives to the detected one.
+const MAX_KEY_CANDIDATES = 5;
+
+const ROOT_SEMITONES: Record<string, number> = {
+  "C": 0, "C#": 1, "Db": 1,
+  "D": 2, "D#": 3, "Eb": 3,
+  "E": 4,
+  "F": 5, "F#": 6, "Gb": 6,
+  "G": 7, "G#": 8, "Ab": 8,
+  "A": 9, "A#": 10, "Bb": 10,
+  "B": 11,
+};
+
+// Major keys from F round to Db are written with flats, and so are the modes
+// that share their notes.
+const FLAT_PARENT_ROOTS = [5, 10, 3, 8, 1];
+
+export interface ParsedKey {
+  root: number;
+  mode: KeyMode;
+}
+
+// Accepts "A", "Bbm" and "D dorian", as well as the older "A#m/Bbm" spelling
+// of the key picker.
+export function parseKey(key: string): ParsedKey {
+  const [primary] = key.split("/");
+  const match = primary.trim().match(/^([A-G][#b]?)(m?)(?:\s+([a-z]+))?$/i);
+  if (!match) return { root: 0, mode: "major" };
+  const named = match[3]?.toLowerCase() as KeyMode | undefined;
+  const mode = named && KEY_MODES.includes(named) ? named : match[2] === "m" ? "minor" : "major";
+  const tonic = match[1].charAt(0).toUpperCase() + match[1].slice(1);
+  return { root: ROOT_SEMITONES[tonic] ?? 0, mode };
+}
+
+function parentRoot({ root, mode }: ParsedKey): number {
+  return (root - MODE_OFFSETS[mode] + 12) % 12;
+}
+
+export function usesFlats(key: string): boolean {
+  return FLAT_PARENT_ROOTS.includes(parentRoot(parseKey(key)));
+}
+
+// Canonical name of a key: "Bb", "C#m", "D dorian". The tonic is spelled
+// with the accidentals of the key signature.
+export function keyName(root: number, mode: KeyMode): string {
+  const pitchClass = ((root % 12) + 12) % 12;
+  const flats = FLAT_PARENT_ROOTS.includes(parentRoot({ root: pitchClass, mode }));
+  const tonic = (flats ? FLAT_PITCH_CLASS_NAMES : PITCH_CLASS_NAMES)[pitchClass];
+  if (mode === "major") return tonic;
+  if (mode === "minor") return `${tonic}m`;
+  return `${tonic} ${mode}`;
+}
+
+// Every key name for the given modes, mode by mode from C.
+export function keyNames(modes: readonly KeyMode[] = KEY_MODES): string[] {
+  return modes.flatMap(mode => PITCH_CLASS_NAMES.map((_, root) => keyName(root, mode)));
+}
+
+// "C#/Db" -> "Db", "a dorian" -> "A dorian".
+export function canonicalKey(key: string): string {
+  const { root, mode } = parseKey(key);
+  return keyName(root, mode);
+}
+
+export function getKeyTransposition(fromKey: string, toKey: string): number {
+  return parseKey(toKey).root - parseKey(fromKey).root;
+}
+
+function pearson(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+// Profile of a mode, tonic first. Major and minor use the published profiles.
+// The other modes take each scale degree's weight from the major profile
+// (Lydian, Mixolydian) or natural minor (the rest), so the tonic and fifth
+// stand out rather than those of the major key with the same notes; notes
+// outside the scale share the average of the base profile's chromatic notes.
+function modeProfile(profileName: KeyProfileName, mode: KeyMode): number[] {
+  const profile = KEY_PROFILES[profileName];
+  if (mode === "major" || mode === "minor") return profile[mode];
+
+  const base = MODE_STEPS[mode][2] === 4 ? "major" : "minor";
+  const baseSteps = MODE_STEPS[base];
+  const chromatic = profile[base].filter((_, i) => !baseSteps.includes(i));
+  const outside = chromatic.reduce((a, b) => a + b, 0) / chromatic.length;
+  const result = new Array(12).fill(outside);
+  MODE_STEPS[mode].forEach((step, degree) => {
+    result[step] = profile[base][baseSteps[degree]];
+  });
+  return result;
+}
+
+export interface KeyOptions {
+  profile?: KeyProfileName;
+  // Considers the church modes besides major and minor.
+  modes?: boolean;
+}
+
+interface KeyTemplate {
+  key: string;
+  profile: number[];
+}
+
+const templateCache = new Map<string, KeyTemplate[]>();
+
+// Every candidate key with its profile rotated onto the tonic.
+function keyTemplates({ profile = "krumhansl", modes = false }: KeyOptions): KeyTemplate[] {
+  const cacheKey = `${profile}:${modes}`;
+  const cached = templateCache.get(cacheKey);
+  if (cached) return cached;
+
+  const templates = (modes ? KEY_MODES : (["major", "minor"] as const)).flatMap(mode => {
+    const tonicFirst = modeProfile(profile, mode);
+    return PITCH_CLASS_NAMES.map((_, root) => ({
+      key: keyName(root, mode),
+      profile: tonicFirst.map((_, i) => tonicFirst[(i - root + 12) % 12]),
+    }));
+  });
+  templateCache.set(cacheKey, templates);
+  return templates;
+}
+
+// Krumhansl-Schmuckler correlation of a pitch-class distribution with each
+// candidate key, best first. Scores are Pearson correlations in [-1, 1].
+export function rankKeys(pitchClasses: number[], options: KeyOptions = {}): KeyCandidate[] {
+  return keyTemplates(options)
+    .map(({ key, profile }) => ({ key, score: Math.round(pearson(pitchClasses, profile) * 1000) / 1000 }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export function detectKey(pitchClassHistogram: number[], options: KeyOptions = {}): string {
+  return rankKeys(pitchClassHistogram, options)[0].key;
+}
+
+// Ranked alternatives for the key that holds longest: the chroma of the
+// stretches in `key` (or of the whole song without a timeline) correlated with
+// every candidate. The top candidates are kept, with `key` always among them.
+export function keyCandidates(
+  chromagram: Chromagram,
+  segments: KeySegment[],
+  key: string,
+  options: KeyOptions = {}
+): KeyCandidate[] {
+  const pitchClasses = new Array(12).fill(0);
+  chromagram.times.forEach((time, f) => {
+    if (segments.length > 0 && activeKey(segments, time) !== key) return;
+    for (let i = 0; i < 12; i++) pitchClasses[i] += Math.sqrt(chromagram.frames[f][i]);
+  });
+
+  const ranked = rankKeys(pitchClasses, options);
+  const top = ranked.slice(0, MAX_KEY_CANDIDATES);
+  if (!top.some(candidate => candidate.key === key)) {
+    top[top.length - 1] = ranked.find(candidate => candidate.key === key) ?? { key, score: 0 };
+  }
+  return top;
+}
+
+// Key at `time` on a key timeline; times outside it take the nearest segment.
+export function activeKey(segments: KeySegment[], time: number): string | undefined {
+  if (segments.length === 0) return undefined;
+  const index = segments.findIndex(segment => time < segment.time + segment.duration);
+  return segments[index < 0 ? segments.length - 1 : index].key;
+}
+
+// Key over time, for songs that modulate: the chroma of sliding windows is
+// correlated with every key and a sticky HMM keeps the key from flickering
+// between neighbours. Returns one segment per stretch of the same key.
+export function trackKeys(chromagram: Chromagram, duration: number, options: KeyOptions = {}): KeySegment[] {
+  const templates = keyTemplates(options);
+  const slots = Math.max(1, Math.ceil(duration / KEY_HOP_SECONDS));
+  const emissions: Float64Array[] = [];
+
+  for (let slot = 0; slot < slots; slot++) {
+    const center = (slot + 0.5) * KEY_HOP_SECONDS;
+    const pitchClasses = new Array(12).fill(0);
+    chromagram.times.forEach((time, f) => {
+      if (Math.abs(time - center) > KEY_WINDOW_SECONDS / 2) return;
+      for (let i = 0; i < 12; i++) pitchClasses[i] += Math.sqrt(chromagram.frames[f][i]);
+    });
+
+    const silent = pitchClasses.every(value => value === 0);
+    emissions.push(Float64Array.from(
+      templates,
+      ({ profile }) => (silent ? 1 : Math.exp(KEY_EMISSION_SHARPNESS * pearson(pitchClasses, profile)))
+    ));
+  }
+
+  const path = viterbi(emissions, stickyTransitionMatrix(templates.length, KEY_SELF_TRANSITION));
+  const segments: KeySegment[] = [];
+  path.forEach((state, slot) => {
+    const time = slot * KEY_HOP_SECONDS;
+    const end = Math.min(duration, time + KEY_HOP_SECONDS);
+    const key = templates[state].key;
+    const previous = segments[segments.length - 1];
+    if (previous?.key === key) previous.duration = end - previous.time;
+    else segments.push({ key, time, duration: end - time });
+  });
+  return segments;
+}
+
+// Replaces `from` with `to` on a key timeline, merging neighbours that end up
+// in the same key.
+export function replaceKey(segments: KeySegment[], from: string, to: string): KeySegment[] {
+  const result: KeySegment[] = [];
+  for (const segment of segments) {
+    const key = segment.key === from ? to : segment.key;
+    const previous = result[result.length - 1];
+    if (previous?.key === key) previous.duration = segment.time + segment.duration - previous.time;
+    else result.push({ ...segment, key });
+  }
+  return result;
+}
+
+// Key that lasts longest over the timeline.
+export function dominantKey(segments: KeySegment[]): string | undefined {
+  const totals = new Map<string, number>();
+  for (const { key, duration } of segments) totals.set(key, (totals.get(key) ?? 0) + duration);
+  let best: string | undefined;
+  totals.forEach((total, key) => {
+    if (best === undefined || total > totals.get(best)!) best = key;
+  });
+  return best;
+}
@@ -0,0 +1,129 @@
+import type { AnalysisParams, Note, PitchMethod } from "../schema";
+import { A4_FREQUENCY, frequencyToCents, frequencyToNote, frequencyToPitchClass } from "./notes";
+import { trackPitchAutocorrelation, type PitchFrame } from "./pitch";
+import { trackPitchPyin, trackPitchYin } from "./yin";
+
+// Default note limits of a transcription when params.maxNotes is unset.
+export const MAX_MELODY_NOTES = 64;
+export const MAX_POLYPHONIC_NOTES = 256;
+
+export interface MelodyExtraction {
+  notes: Note[];
+  pitchClassHistogram: number[];
+}
+
+export function trackPitch(data: Float32Array, sampleRate: number, method: PitchMethod): PitchFrame[] {
+  switch (method) {
+    case "autocorrelation":
+      return trackPitchAutocorrelation(data, sampleRate);
+    case "yin":
+      return trackPitchYin(data, sampleRate);
+    case "pyin":
+      return trackPitchPyin(data, sampleRate);
+  }
+}
+
+// The autocorrelation tracker keeps its original RMS gate; the YIN trackers
+// gate on their own voicing probability instead.
+export function createVoicingGate(params: AnalysisParams): (frame: PitchFrame) => boolean {
+  if (params.pitchMethod === "autocorrelation") {
+    const rmsThreshold = 0.01 * (params.pitchSensitivity / 100);
+    return frame => frame.rms >= rmsThreshold;
+  }
+  const minProbability = Math.min(0.95, Math.max(0.05, 1 - params.pitchSensitivity / 100));
+  return frame => frame.frequency > 0 && frame.probability >= minProbability;
+}
+
+// Turns a pitch track into notes: a note starts whenever the voiced pitch
+// changes, and notes shorter than `minDuration` seconds are dropped. The last
+// note is held until `trackEnd`. Notes are named against the A4 `reference`
+// and keep their average deviation from it in cents.
+export function segmentNotes(
+  frames: PitchFrame[],
+  isVoiced: (frame: PitchFrame) => boolean,
+  minDuration: number,
+  trackEnd: number,
+  reference: number = A4_FREQUENCY
+): MelodyExtraction {
+  const notes: Note[] = [];
+  const pitchClassHistogram = new Array(12).fill(0);
+
+  let lastNote = "";
+  let noteStartTime = 0;
+  let noteVelocity = 0;
+  let centsTotal = 0;
+  let centsFrames = 0;
+
+  const closeNote = (endTime: number) => {
+    const duration = endTime - noteStartTime;
+    if (duration > minDuration) {
+      notes.push({
+        note: lastNote,
+        time: noteStartTime,
+        duration,
+        velocity: Math.min(1, noteVelocity * 10),
+        cents: centsFrames > 0 ? Math.round(centsTotal / centsFrames) : 0,
+      });
+    }
+  };
+
+  for (const frame of frames) {
+    if (!isVoiced(frame)) {
+      if (lastNote) {
+        closeNote(frame.time);
+        lastNote = "";
+      }
+      continue;
+    }
+
+    const note = frequencyToNote(frame.frequency, reference);
+    const pitchClass = frequencyToPitchClass(frame.frequency, reference);
+
+    if (pitchClass >= 0) {
+      pitchClassHistogram[pitchClass] += frame.rms * frame.probability;
+    }
+
+    if (note !== "rest" && note !== lastNote) {
+      if (lastNote) {
+        closeNote(frame.time);
+      }
+      lastNote = note;
+      noteStartTime = frame.time;
+      noteVelocity = frame.rms;
+      centsTotal = 0;
+      centsFrames = 0;
+    }
+    if (note !== "rest") {
+      centsTotal += frequencyToCents(frame.frequency, reference);
+      centsFrames++;
+    }
+  }
+
+  if (lastNote) {
+    closeNote(trackEnd);
+  }
+
+  return { notes, pitchClassHistogram };
+}
+
+export function extractMelody(
+  data: Float32Array,
+  sampleRate: number,
+  params: AnalysisParams,
+  reference: number = A4_FREQUENCY
+): MelodyExtraction {
+  const { notes, pitchClassHistogram } = segmentNotes(
+    trackPitch(data, sampleRate, params.pitchMethod),
+    createVoicingGate(params),
+    params.minNoteDuration / 1000,
+    data.length / sampleRate,
+    reference
+  );
+
+  return { notes, pitchClassHistogram };
+}
+
+// Most notes a melody or bass line keeps; later notes are dropped.
+export function noteLimit(params: AnalysisParams): number {
+  return params.maxNotes ?? (params.polyphonic ? MAX_POLYPHONIC_NOTES : MAX_MELODY_NOTES);
+}
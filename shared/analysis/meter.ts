@@ -0,0 +1,73 @@
+// Meters the detector chooses between. `beatsPerBar` counts tracked beats, so
+// the eighth-note meters assume the tracker follows the eighths, as the code
+// generator does. `prior` favours the common meter when an accent pattern fits
+// several: strong-weak-strong-weak reads as 4/4 before 2/4, and 3/4 before 6/8.
+export const METERS = [
+  { timeSignature: "4/4", beatsPerBar: 4, prior: 1 },
+  { timeSignature: "3/4", beatsPerBar: 3, prior: 1 },
+  { timeSignature: "2/4", beatsPerBar: 2, prior: 0.6 },
+  { timeSignature: "6/8", beatsPerBar: 6, prior: 0.75 },
+  { timeSignature: "5/4", beatsPerBar: 5, prior: 0.7 },
+  { timeSignature: "7/8", beatsPerBar: 7, prior: 0.7 },
+] as const;
+
+// A meter needs at least this many bars of beats to be judged.
+const MIN_BARS = 3;
+// Beat strengths varying by less than this share of their mean are even
+// accents, whatever pattern their small differences happen to form.
+const MIN_VARIATION = 0.1;
+// The downbeat has to stand out by this many spreads of beat strength (after
+// the prior) for a meter to be reported at all.
+const MIN_CONTRAST = 1;
+// A meter later in METERS only replaces the best so far when it scores this
+// much higher, so near ties go to the common meter.
+const TIE_MARGIN = 0.05;
+
+export interface MeterEstimate {
+  timeSignature: string;
+  beatsPerBar: number;
+  // Index of the first beat that starts a bar.
+  phase: number;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+// How much louder the downbeat is than the rest of the bar, on average over
+// all bars, in units of the spread of beat strengths.
+function downbeatContrast(strengths: number[], beatsPerBar: number, phase: number, spread: number): number {
+  const profile = new Array(beatsPerBar).fill(0);
+  const counts = new Array(beatsPerBar).fill(0);
+  strengths.forEach((strength, i) => {
+    const position = (((i - phase) % beatsPerBar) + beatsPerBar) % beatsPerBar;
+    profile[position] += strength;
+    counts[position]++;
+  });
+  const averages = profile.map((total, i) => (counts[i] > 0 ? total / counts[i] : 0));
+  return (averages[0] - mean(averages.slice(1))) / spread;
+}
+
+// Picks meter and bar phase from the accent pattern of the beats: the bar
+// length and offset whose first beat stands out most from the others.
+// Returns null when there are too few beats to tell or no downbeat stands
+// out clearly enough, so the caller keeps its own meter.
+export function detectMeter(strengths: number[]): MeterEstimate | null {
+  const average = mean(strengths);
+  const spread = Math.sqrt(mean(strengths.map(s => (s - average) ** 2)));
+  if (spread === 0 || spread < average * MIN_VARIATION) return null;
+
+  let best: MeterEstimate | null = null;
+  let bestScore = -Infinity;
+  for (const { timeSignature, beatsPerBar, prior } of METERS) {
+    if (strengths.length < beatsPerBar * MIN_BARS) continue;
+    for (let phase = 0; phase < beatsPerBar; phase++) {
+      const score = prior * downbeatContrast(strengths, beatsPerBar, phase, spread);
+      if (score > bestScore + TIE_MARGIN) {
+        bestScore = score;
+        best = { timeSignature, beatsPerBar, phase };
+      }
+    }
+  }
+  return bestScore >= MIN_CONTRAST ? best : null;
+}
@@ -0,0 +1,174 @@
+// Renders timed events as Strudel mini-notation on a fixed step grid: one
+// cycle per bar, `~` for silence and `@n` weights for anything longer than a
+// single step. Repetition is folded back into `*n`, `!n` and `<a b>` so
+// riffs read the way someone would type them.
+
+export interface GridEvent {
+  // Absolute step indices on the grid, end exclusive.
+  start: number;
+  end: number;
+  token: string;
+}
+
+// One element of a bar's sequence; `weight` is its length in grid steps.
+export interface Segment {
+  token: string;
+  weight: number;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function weighted(token: string, weight: number): string {
+  return weight === 1 ? token : `${token}@${weight}`;
+}
+
+function sameSegments(a: Segment[], b: Segment[]): boolean {
+  return a.length === b.length && a.every((segment, i) => {
+    return segment.token === b[i].token && segment.weight === b[i].weight;
+  });
+}
+
+// Smallest p dividing items.length such that items repeat every p entries.
+function shortestPeriod<T>(items: T[], equal: (a: T, b: T) => boolean): number {
+  for (let period = 1; period < items.length; period++) {
+    if (items.length % period !== 0) continue;
+    if (items.every((item, i) => equal(item, items[i % period]))) return period;
+  }
+  return items.length;
+}
+
+// Collapses runs of identical elements: `a a a b` -> `a!3 b`. Weighted
+// elements are left alone so `!` never has to be combined with `@`.
+function foldRepeats(elements: string[]): string {
+  const parts: string[] = [];
+  for (let i = 0; i < elements.length; ) {
+    let run = 1;
+    if (!/@\d+$/.test(elements[i])) {
+      while (elements[i + run] === elements[i]) run++;
+    }
+    parts.push(run === 1 ? elements[i] : `${elements[i]}!${run}`);
+    i += run;
+  }
+  return parts.join(" ");
+}
+
+// Drops events that collide after snapping and trims each event so it ends
+// before the next one starts. Events must not be empty.
+export function resolveOverlaps(events: GridEvent[]): GridEvent[] {
+  const sorted = [...events].sort((a, b) => a.start - b.start || b.end - a.end);
+  const resolved: GridEvent[] = [];
+
+  for (const event of sorted) {
+    const previous = resolved[resolved.length - 1];
+    if (previous && previous.start === event.start) continue;
+    if (previous && previous.end > event.start) previous.end = event.start;
+    resolved.push({ ...event });
+  }
+  return resolved;
+}
+
+// Lays one bar's events (steps relative to the bar start) out as a sequence,
+// filling the gaps with rests.
+export function barSegments(events: GridEvent[], stepsPerBar: number): Segment[] {
+  const segments: Segment[] = [];
+  let cursor = 0;
+
+  for (const event of events) {
+    if (event.start > cursor) segments.push({ token: "~", weight: event.start - cursor });
+    segments.push({ token: event.token, weight: event.end - event.start });
+    cursor = event.end;
+  }
+  if (cursor < stepsPerBar) segments.push({ token: "~", weight: stepsPerBar - cursor });
+  return segments;
+}
+
+// The body of a sequence, with weights reduced by their common divisor and
+// runs of equal single steps folded with `!`.
+export function formatSequence(segments: Segment[]): string {
+  const divisor = segments.reduce((acc, segment) => gcd(acc, segment.weight), 0);
+  const elements = segments.map(segment => weighted(segment.token, segment.weight / divisor));
+  return foldRepeats(elements);
+}
+
+// A bar as a single mini-notation element: a bare token when one event fills
+// it, `cell*n` when it is one cell played n times, otherwise `[...]`.
+export function formatBar(segments: Segment[]): string {
+  if (segments.length === 1) return segments[0].token;
+
+  const period = shortestPeriod(segments, (a, b) => a.token === b.token && a.weight === b.weight);
+  if (period < segments.length) {
+    const cell = segments.slice(0, period);
+    const repeats = segments.length / period;
+    return cell.length === 1 ? `${cell[0].token}*${repeats}` : `[${formatSequence(cell)}]*${repeats}`;
+  }
+  return `[${formatSequence(segments)}]`;
+}
+
+// A bar written as the top level of a pattern string, where the outer
+// brackets are implied.
+function formatTopLevel(segments: Segment[]): string {
+  const element = formatBar(segments);
+  const sequence = formatSequence(segments);
+  return element === `[${sequence}]` ? sequence : element;
+}
+
+// Bars that share one rhythm can be written as a single bar whose differing
+// steps alternate per cycle: `[c4 e4 <a4 b4>]`. Returns null otherwise.
+function mergeAlternating(bars: Segment[][]): Segment[] | null {
+  const [first, ...rest] = bars;
+  const sameRhythm = rest.every(bar => {
+    return bar.length === first.length && bar.every((segment, i) => segment.weight === first[i].weight);
+  });
+  if (!sameRhythm) return null;
+
+  let shared = 0;
+  const merged = first.map((segment, i) => {
+    const tokens = bars.map(bar => bar[i].token);
+    if (tokens.every(token => token === segment.token)) {
+      shared++;
+      return segment;
+    }
+    return { token: `<${foldRepeats(tokens)}>`, weight: segment.weight };
+  });
+  return shared > 0 ? merged : null;
+}
+
+// Splits events at bar lines into `barCount` bars starting at step 0. Notes
+// held across a bar line are re-struck in the next bar, since each bar is its
+// own cycle.
+export function renderBars(events: GridEvent[], stepsPerBar: number, barCount: number): Segment[][] {
+  const bars: GridEvent[][] = Array.from({ length: barCount }, () => []);
+
+  for (const event of resolveOverlaps(events)) {
+    for (let bar = Math.floor(event.start / stepsPerBar); bar < barCount; bar++) {
+      const barStart = bar * stepsPerBar;
+      if (barStart >= event.end) break;
+      if (bar < 0) continue;
+      bars[bar].push({
+        start: Math.max(event.start, barStart) - barStart,
+        end: Math.min(event.end, barStart + stepsPerBar) - barStart,
+        token: event.token,
+      });
+    }
+  }
+
+  return bars.map(barEvents => barSegments(barEvents, stepsPerBar));
+}
+
+// Writes bars as one pattern string, one cycle per bar. A layer that loops a
+// shorter phrase is cut down to that phrase, which plays identically.
+export function renderCycles(bars: Segment[][]): string {
+  if (bars.length === 0) return "~";
+
+  const loop = bars.slice(0, shortestPeriod(bars, sameSegments));
+  if (loop.length === 1) return formatTopLevel(loop[0]);
+
+  const alternated = mergeAlternating(loop);
+  const cycles = `<${foldRepeats(loop.map(formatBar))}>`;
+  if (!alternated) return cycles;
+
+  const merged = formatTopLevel(alternated);
+  return merged.length < cycles.length ? merged : cycles;
+}
@@ -0,0 +1,78 @@
+export const NOTE_NAMES = ["c", "cs", "d", "ds", "e", "f", "fs", "g", "gs", "a", "as", "b"];
+export const PITCH_CLASS_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+export const FLAT_NOTE_NAMES = ["c", "df", "d", "ef", "e", "f", "gf", "g", "af", "a", "bf", "b"];
+export const FLAT_PITCH_CLASS_NAMES = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
+
+// Standard concert pitch. Functions taking a `reference` name notes against
+// the A4 a recording is actually tuned to.
+export const A4_FREQUENCY = 440;
+const A4_MIDI = 69;
+const MIN_NOTE_FREQUENCY = 50;
+
+// Fractional MIDI pitch, without rounding to the nearest note.
+export function frequencyToPitch(freq: number, reference: number = A4_FREQUENCY): number {
+  return A4_MIDI + 12 * Math.log2(freq / reference);
+}
+
+export function frequencyToMidi(freq: number, reference: number = A4_FREQUENCY): number {
+  if (freq < MIN_NOTE_FREQUENCY) return -1;
+  return Math.round(frequencyToPitch(freq, reference));
+}
+
+export function midiToFrequency(midi: number, reference: number = A4_FREQUENCY): number {
+  return reference * Math.pow(2, (midi - A4_MIDI) / 12);
+}
+
+// How far `freq` is from the nearest note of the tuning, in cents.
+export function frequencyToCents(freq: number, reference: number = A4_FREQUENCY): number {
+  const pitch = frequencyToPitch(freq, reference);
+  return (pitch - Math.round(pitch)) * 100;
+}
+
+export function midiToNote(midi: number): string {
+  const octave = Math.floor(midi / 12) - 1;
+  return `${NOTE_NAMES[((midi % 12) + 12) % 12]}${octave}`;
+}
+
+export function frequencyToNote(freq: number, reference: number = A4_FREQUENCY): string {
+  const midi = frequencyToMidi(freq, reference);
+  if (midi < 0) return "rest";
+  return midiToNote(midi);
+}
+
+export function frequencyToPitchClass(freq: number, reference: number = A4_FREQUENCY): number {
+  const midi = frequencyToMidi(freq, reference);
+  if (midi < 0) return -1;
+  return midi % 12;
+}
+
+export function noteToMidi(note: string): number {
+  const match = note.match(/^([a-g])(s|#|f|b)?(-?\d+)$/i);
+  if (!match) return 60;
+
+  const [, letter, accidental, octaveStr] = match;
+  let pitchClass = NOTE_NAMES.indexOf(letter.toLowerCase());
+  if (accidental === "s" || accidental === "#") pitchClass += 1;
+  if (accidental === "f" || accidental === "b") pitchClass -= 1;
+
+  return pitchClass + (parseInt(octaveStr, 10) + 1) * 12;
+}
+
+// Respells a note with flats when `flats` is set: "as3" -> "bf3".
+export function spellNote(note: string, flats: boolean): string {
+  if (!flats) return note;
+  const midi = noteToMidi(note);
+  return `${FLAT_NOTE_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+export function transposeNote(note: string, semitones: number): string {
+  return midiToNote(noteToMidi(note) + semitones);
+}
+
+export function formatNoteForStrudel(note: string): string {
+  const match = note.match(/^([A-Ga-g])([#b]?)(\d+)$/);
+  if (!match) return note.toLowerCase();
+  const [, noteName, accidental, octave] = match;
+  const strudelAccidental = accidental === "#" ? "s" : accidental === "b" ? "f" : "";
+  return `${noteName.toLowerCase()}${strudelAccidental}${octave}`;
+}
@@ -0,0 +1,124 @@
+import { hannWindow, magnitudeSpectrum } from "./fft";
+
+export const ONSET_FRAME_SIZE = 2048;
+export const ONSET_HOP_SIZE = 512;
+
+const LOG_COMPRESSION = 1000;
+const LOCAL_MEAN_SECONDS = 0.25;
+
+export interface OnsetEnvelope {
+  envelope: Float64Array;
+  frameRate: number;
+}
+
+export interface OnsetOptions {
+  minFrequency?: number;
+  maxFrequency?: number;
+}
+
+// Log-compressed spectral flux: the half-wave rectified frame-to-frame increase
+// in magnitude, summed over bins and with the local mean removed.
+export function spectralFlux(
+  data: Float32Array,
+  sampleRate: number,
+  options: OnsetOptions = {}
+): OnsetEnvelope {
+  return fluxToEnvelope(rawSpectralFlux(data, sampleRate, options), sampleRate / ONSET_HOP_SIZE);
+}
+
+// Spectral flux before fluxToEnvelope. Frame 0 has nothing to compare with
+// and stays 0.
+export function rawSpectralFlux(
+  data: Float32Array,
+  sampleRate: number,
+  options: OnsetOptions = {}
+): Float64Array {
+  const window = hannWindow(ONSET_FRAME_SIZE);
+  const minBin = Math.max(1, Math.floor(((options.minFrequency ?? 0) * ONSET_FRAME_SIZE) / sampleRate));
+  const maxBin = Math.min(
+    ONSET_FRAME_SIZE / 2,
+    Math.ceil(((options.maxFrequency ?? sampleRate / 2) * ONSET_FRAME_SIZE) / sampleRate)
+  );
+
+  // Frames are centred on f * hop so that envelope index f maps to f / frameRate seconds.
+  const frameCount = Math.floor(data.length / ONSET_HOP_SIZE) + 1;
+  const flux = new Float64Array(frameCount);
+  const frame = new Float64Array(ONSET_FRAME_SIZE);
+  let previous: Float64Array | null = null;
+
+  for (let f = 0; f < frameCount; f++) {
+    const start = f * ONSET_HOP_SIZE - ONSET_FRAME_SIZE / 2;
+    for (let i = 0; i < ONSET_FRAME_SIZE; i++) {
+      const index = start + i;
+      frame[i] = index >= 0 && index < data.length ? data[index] : 0;
+    }
+    const magnitudes = magnitudeSpectrum(frame, window);
+    const compressed = new Float64Array(magnitudes.length);
+    for (let k = minBin; k <= maxBin; k++) {
+      compressed[k] = Math.log1p(LOG_COMPRESSION * magnitudes[k] / ONSET_FRAME_SIZE);
+    }
+
+    if (previous) {
+      let sum = 0;
+      for (let k = minBin; k <= maxBin; k++) {
+        const increase = compressed[k] - previous[k];
+        if (increase > 0) sum += increase;
+      }
+      flux[f] = sum;
+    }
+    previous = compressed;
+  }
+
+  return flux;
+}
+
+// Removes the local mean from raw flux and scales it to a peak of 1.
+export function fluxToEnvelope(flux: Float64Array, frameRate: number): OnsetEnvelope {
+  const frameCount = flux.length;
+  const radius = Math.max(1, Math.round(LOCAL_MEAN_SECONDS * frameRate));
+  const envelope = new Float64Array(frameCount);
+  let runningSum = 0;
+  for (let f = 0; f < Math.min(frameCount, radius); f++) {
+    runningSum += flux[f];
+  }
+  for (let f = 0; f < frameCount; f++) {
+    if (f + radius < frameCount) runningSum += flux[f + radius];
+    if (f - radius - 1 >= 0) runningSum -= flux[f - radius - 1];
+    const count = Math.min(frameCount - 1, f + radius) - Math.max(0, f - radius) + 1;
+    envelope[f] = Math.max(0, flux[f] - runningSum / count);
+  }
+
+  let max = 0;
+  for (let f = 0; f < frameCount; f++) {
+    max = Math.max(max, envelope[f]);
+  }
+  if (max > 0) {
+    for (let f = 0; f < frameCount; f++) {
+      envelope[f] /= max;
+    }
+  }
+
+  return { envelope, frameRate };
+}
+
+// Local maxima of the envelope above an adaptive threshold, at least
+// `minSpacing` seconds apart. Returns onset times in seconds.
+export function pickOnsets(
+  { envelope, frameRate }: OnsetEnvelope,
+  threshold: number = 0.1,
+  minSpacing: number = 0.05
+): number[] {
+  const onsets: number[] = [];
+  const minFrames = Math.max(1, Math.round(minSpacing * frameRate));
+  let lastOnset = -Infinity;
+
+  for (let f = 0; f < envelope.length - 1; f++) {
+    const value = envelope[f];
+    if (value < threshold || (f > 0 && value < envelope[f - 1]) || value <= envelope[f + 1]) continue;
+    if (f - lastOnset < minFrames) continue;
+    onsets.push(f / frameRate);
+    lastOnset = f;
+  }
+
+  return onsets;
+}
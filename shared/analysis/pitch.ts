@@ -0,0 +1,58 @@
+export const MIN_PITCH_FREQUENCY = 80;
+export const MAX_PITCH_FREQUENCY = 1000;
+
+export const AUTOCORRELATION_FRAME_SIZE = 4096;
+export const AUTOCORRELATION_HOP_SIZE = 2048;
+
+export interface PitchFrame {
+  time: number;
+  frequency: number;
+  // Voicing confidence in [0, 1]; the autocorrelation tracker has no notion of
+  // confidence and always reports 1.
+  probability: number;
+  rms: number;
+}
+
+export function detectPitch(frame: Float32Array, sampleRate: number): number {
+  const minPeriod = Math.floor(sampleRate / MAX_PITCH_FREQUENCY);
+  const maxPeriod = Math.floor(sampleRate / MIN_PITCH_FREQUENCY);
+
+  let maxCorr = 0;
+  let bestPeriod = 0;
+
+  for (let period = minPeriod; period < maxPeriod; period++) {
+    let corr = 0;
+    for (let i = 0; i < frame.length - period; i++) {
+      corr += frame[i] * frame[i + period];
+    }
+    if (corr > maxCorr) {
+      maxCorr = corr;
+      bestPeriod = period;
+    }
+  }
+
+  return bestPeriod > 0 ? sampleRate / bestPeriod : 0;
+}
+
+export function trackPitchAutocorrelation(data: Float32Array, sampleRate: number): PitchFrame[] {
+  const frames: PitchFrame[] = [];
+
+  for (let i = 0; i < data.length - AUTOCORRELATION_FRAME_SIZE; i += AUTOCORRELATION_HOP_SIZE) {
+    const frame = data.subarray(i, i + AUTOCORRELATION_FRAME_SIZE);
+
+    let rms = 0;
+    for (let j = 0; j < frame.length; j++) {
+      rms += frame[j] * frame[j];
+    }
+    rms = Math.sqrt(rms / frame.length);
+
+    frames.push({
+      time: i / sampleRate,
+      frequency: detectPitch(frame, sampleRate),
+      probability: 1,
+      rms,
+    });
+  }
+
+  return frames;
+}
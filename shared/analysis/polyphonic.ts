@@ -0,0 +1,167 @@
+import type { AnalysisParams, Note } from "../schema";
+import { hannWindow, magnitudeSpectrum, nextPowerOfTwo } from "./fft";
+import type { MelodyExtraction } from "./melody";
+import { A4_FREQUENCY, midiToFrequency, midiToNote, noteToMidi } from "./notes";
+
+// Candidate range: E2 (low guitar string) to C7.
+const MIN_MIDI = 40;
+const MAX_MIDI = 96;
+const HARMONICS = 8;
+const MAX_HARMONIC_FREQUENCY = 5000;
+// Weight of harmonic h is HARMONIC_DECAY^(h-1), so a fundamental outweighs a
+// note an octave below that only collects its even partials.
+const HARMONIC_DECAY = 0.8;
+const MAX_POLYPHONY = 6;
+// A further pitch in a frame must reach this share of the frame's strongest.
+const RELATIVE_SALIENCE = 0.3;
+// Bridges dropouts this many frames long inside a held note.
+const GAP_FRAMES = 2;
+// Salience jumping by this factor from one frame to the next re-strikes a
+// held note.
+const RESTRIKE_RATIO = 2;
+
+interface Peak {
+  bin: number;
+  magnitude: number;
+}
+
+// Strongest bin within half a semitone of `frequency`.
+function harmonicPeak(spectrum: Float64Array, frequency: number, binFrequency: number): Peak {
+  const first = Math.max(1, Math.floor((frequency * Math.pow(2, -1 / 24)) / binFrequency));
+  const last = Math.min(spectrum.length - 1, Math.ceil((frequency * Math.pow(2, 1 / 24)) / binFrequency));
+  let peak = { bin: first, magnitude: 0 };
+  for (let k = first; k <= last; k++) {
+    if (spectrum[k] > peak.magnitude) peak = { bin: k, magnitude: spectrum[k] };
+  }
+  return peak;
+}
+
+function harmonicPeaks(spectrum: Float64Array, midi: number, binFrequency: number, reference: number): Peak[] {
+  const f0 = midiToFrequency(midi, reference);
+  const peaks: Peak[] = [];
+  for (let h = 1; h <= HARMONICS && h * f0 <= MAX_HARMONIC_FREQUENCY; h++) {
+    peaks.push(harmonicPeak(spectrum, h * f0, binFrequency));
+  }
+  return peaks;
+}
+
+function salience(peaks: Peak[]): number {
+  return peaks.reduce((sum, peak, i) => sum + Math.pow(HARMONIC_DECAY, i) * peak.magnitude, 0);
+}
+
+// Removes a detected note from the spectrum. Each partial loses only a
+// smoothed estimate of its own amplitude, so partials it shares with other
+// notes in the chord are left for them (Klapuri's spectral smoothness).
+function cancelNote(spectrum: Float64Array, peaks: Peak[]): void {
+  peaks.forEach((peak, i) => {
+    const neighbours = peaks.slice(Math.max(0, i - 1), i + 2).map(p => p.magnitude);
+    const own = Math.min(peak.magnitude, neighbours.reduce((a, b) => a + b, 0) / neighbours.length);
+    for (let k = Math.max(0, peak.bin - 1); k <= Math.min(spectrum.length - 1, peak.bin + 1); k++) {
+      spectrum[k] = Math.max(0, spectrum[k] - own);
+    }
+  });
+}
+
+// Iterative estimation and cancellation over a harmonic-sum spectrum: the
+// most salient pitch in a frame is taken, its partials are removed and the
+// search repeats until what is left is too weak to be another note.
+function estimatePitches(magnitudes: Float64Array, binFrequency: number, reference: number): Map<number, number> {
+  const spectrum = Float64Array.from(magnitudes);
+  const pitches = new Map<number, number>();
+  let strongest = 0;
+
+  for (let i = 0; i < MAX_POLYPHONY; i++) {
+    let best = -1;
+    let bestSalience = 0;
+    let bestPeaks: Peak[] = [];
+    for (let midi = MIN_MIDI; midi <= MAX_MIDI; midi++) {
+      if (pitches.has(midi)) continue;
+      const peaks = harmonicPeaks(spectrum, midi, binFrequency, reference);
+      const value = salience(peaks);
+      if (value > bestSalience) {
+        best = midi;
+        bestSalience = value;
+        bestPeaks = peaks;
+      }
+    }
+
+    if (best < 0 || bestSalience < strongest * RELATIVE_SALIENCE) break;
+    strongest = Math.max(strongest, bestSalience);
+    pitches.set(best, bestSalience);
+    cancelNote(spectrum, bestPeaks);
+  }
+
+  return pitches;
+}
+
+// Polyphonic transcription for piano and guitar recordings. Returns
+// overlapping notes sorted by onset, then pitch, named against the A4
+// `reference`.
+export function extractPolyphonic(
+  data: Float32Array,
+  sampleRate: number,
+  params: AnalysisParams,
+  reference: number = A4_FREQUENCY
+): MelodyExtraction {
+  const frameSize = nextPowerOfTwo(Math.round(sampleRate * 0.1));
+  const hopSize = frameSize / 4;
+  const window = hannWindow(frameSize);
+  const binFrequency = sampleRate / frameSize;
+  const hopDuration = hopSize / sampleRate;
+
+  const frames: Map<number, number>[] = [];
+  for (let i = 0; i + frameSize <= data.length; i += hopSize) {
+    frames.push(estimatePitches(magnitudeSpectrum(data.subarray(i, i + frameSize), window), binFrequency, reference));
+  }
+
+  let peak = 0;
+  for (const pitches of frames) pitches.forEach(value => { peak = Math.max(peak, value); });
+  const floor = peak * 0.3 * (1 - params.pitchSensitivity / 100);
+  const minFrames = Math.max(1, Math.ceil(params.minNoteDuration / 1000 / hopDuration));
+  const frameTime = (f: number) => (f * hopSize + frameSize / 2) / sampleRate;
+
+  const notes: Note[] = [];
+  const pitchClassHistogram = new Array(12).fill(0);
+
+  for (let midi = MIN_MIDI; midi <= MAX_MIDI; midi++) {
+    let start = -1;
+    let last = -1;
+    let loudest = 0;
+    let previous = 0;
+
+    const close = () => {
+      if (start >= 0 && last - start + 1 >= minFrames) {
+        notes.push({
+          note: midiToNote(midi),
+          time: frameTime(start),
+          duration: (last - start + 1) * hopDuration,
+          velocity: peak > 0 ? Math.min(1, loudest / peak) : 0,
+        });
+      }
+      start = -1;
+    };
+
+    for (let f = 0; f < frames.length; f++) {
+      const value = frames[f].get(midi) ?? 0;
+      if (value < floor) {
+        if (start >= 0 && f - last > GAP_FRAMES) close();
+        previous = 0;
+        continue;
+      }
+
+      pitchClassHistogram[midi % 12] += value;
+      if (start >= 0 && previous > 0 && value > previous * RESTRIKE_RATIO) close();
+      if (start < 0) {
+        start = f;
+        loudest = 0;
+      }
+      last = f;
+      loudest = Math.max(loudest, value);
+      previous = value;
+    }
+    close();
+  }
+
+  notes.sort((a, b) => a.time - b.time || noteToMidi(a.note) - noteToMidi(b.note));
+  return { notes, pitchClassHistogram };
+}
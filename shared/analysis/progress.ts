@@ -0,0 +1,24 @@
+import type { ProcessingStatus } from "../schema";
+
+export class AnalysisAbortedError extends Error {
+  constructor() {
+    super("Analysis was cancelled");
+    this.name = "AnalysisAbortedError";
+  }
+}
+
+export interface AnalyzeOptions {
+  onProgress?: (status: ProcessingStatus) => void;
+  signal?: AbortSignal;
+}
+
+// Reports a pipeline stage, then yields so an abort request can be picked up
+// before the next one.
+export function stageReporter({ onProgress, signal }: AnalyzeOptions) {
+  return async (step: ProcessingStatus["step"], progress: number, message: string) => {
+    if (signal?.aborted) throw new AnalysisAbortedError();
+    onProgress?.({ step, progress, message });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (signal?.aborted) throw new AnalysisAbortedError();
+  };
+}
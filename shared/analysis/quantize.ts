@@ -0,0 +1,40 @@
+import type { Note } from "../schema";
+import { beatToTime, timeToBeat } from "./beats";
+import { swingBeat, unswingBeat } from "./swing";
+
+const QUANTIZE_BEATS: Record<string, number> = {
+  "1/4": 1,
+  "1/8": 0.5,
+  "1/16": 0.25,
+  "1/32": 0.125,
+};
+
+export function getSubdivisions(quantizeValue: string): number {
+  return 1 / (QUANTIZE_BEATS[quantizeValue] || 0.25);
+}
+
+// Snaps note onsets and ends to subdivisions of the detected beats, so the grid
+// follows tempo drift instead of assuming one fixed tempo. `beats` should cover
+// the whole note range (see `extendBeats`). With a `swing` ratio above 1 the
+// off-beats of the grid are delayed to match.
+export function quantizeNotes(notes: Note[], beats: number[], quantizeValue: string, swing: number = 1): Note[] {
+  if (quantizeValue === "none" || beats.length < 2) return notes;
+
+  const subdivisions = getSubdivisions(quantizeValue);
+  const snap = (time: number) =>
+    Math.round(unswingBeat(timeToBeat(time, beats), swing) * subdivisions) / subdivisions;
+  const toTime = (beat: number) => beatToTime(swingBeat(beat, swing), beats);
+
+  return notes.map(note => {
+    const startBeat = snap(note.time);
+    const time = Math.max(0, toTime(startBeat));
+    if (!note.duration) return { ...note, time, duration: undefined };
+
+    const endBeat = Math.max(startBeat + 1 / subdivisions, snap(note.time + note.duration));
+    return {
+      ...note,
+      time,
+      duration: toTime(endBeat) - time,
+    };
+  });
+}
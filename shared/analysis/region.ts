@@ -0,0 +1,17 @@
+import type { Region } from "../schema";
+
+// `region` clamped to a recording of `duration` seconds. Undefined when it
+// holds no audio or covers the whole recording anyway.
+export function clampRegion(region: Region | undefined, duration: number): Region | undefined {
+  if (!region) return undefined;
+  const start = Math.max(0, Math.min(region.start, duration));
+  const end = Math.max(start, Math.min(region.end, duration));
+  if (end <= start || (start === 0 && end === duration)) return undefined;
+  return { start, end };
+}
+
+// Samples inside `region`, sharing the recording's buffer.
+export function regionSamples(samples: Float32Array, sampleRate: number, region: Region | undefined): Float32Array {
+  if (!region) return samples;
+  return samples.subarray(Math.round(region.start * sampleRate), Math.round(region.end * sampleRate));
+}
@@ -0,0 +1,293 @@
+import type { AnalysisParams, AnalysisResult, ChannelLayer, Chord, DrumHit, Note } from "../schema";
+import { assembleResult } from "./assemble";
+import { analyzedChannel, channelName, selectChannel } from "./channels";
+import { chordsFromChromagram } from "./chords";
+import { computeChromagram, type Chromagram } from "./chroma";
+import { detectDrums } from "./drums";
+import { extractBass } from "./bass";
+import { extractMelody, type MelodyExtraction } from "./melody";
+import { fluxToEnvelope, rawSpectralFlux, ONSET_HOP_SIZE } from "./onset";
+import { extractPolyphonic } from "./polyphonic";
+import { stageReporter, type AnalyzeOptions } from "./progress";
+import { clampRegion } from "./region";
+import { beatTrackingOptionsFromParams, trackBeatsFromOnsets } from "./tempo";
+import { estimateTuning, referencePitch as tuningReference } from "./tuning";
+
+// Recordings at least this long are analyzed window by window.
+export const STREAMING_MIN_SECONDS = 300;
+
+// Each window reports on WINDOW_SECONDS of audio and reads CONTEXT_SECONDS
+// more on either side, so notes and frames near its edges see their whole
+// context. Both are rounded to whole blocks of BLOCK_SIZE samples, which
+// keeps every window on the onset frame grid.
+const WINDOW_SECONDS = 30;
+const CONTEXT_SECONDS = 4;
+const BLOCK_SIZE = 2 * ONSET_HOP_SIZE;
+const WAVEFORM_POINTS = 200;
+
+export interface StreamPartial {
+  // Transcribed in the latest window, in seconds from the start of the
+  // analysis. Chords are provisional until the whole recording is in.
+  melody: Note[];
+  bass?: Note[];
+  chords: Chord[];
+  // Seconds analyzed so far, and in total when known.
+  time: number;
+  duration?: number;
+  // Waveform of the whole analysis, drawn as far as `time`.
+  waveformData: number[];
+}
+
+export interface StreamAnalyzeOptions extends AnalyzeOptions {
+  // Length of the recording, for the region and progress, when known.
+  duration?: number;
+  onPartial?: (partial: StreamPartial) => void;
+}
+
+// Splits decoded channels into blocks of `length` samples, sharing their
+// buffers.
+export function* chunkChannels(channels: Float32Array[], length: number): Generator<Float32Array[]> {
+  const total = channels[0]?.length ?? 0;
+  for (let start = 0; start < total; start += length) {
+    yield channels.map(samples => samples.subarray(start, start + length));
+  }
+}
+
+function joinSamples(pieces: Float32Array[]): Float32Array {
+  if (pieces.length === 1) return pieces[0];
+  const joined = new Float32Array(pieces.reduce((length, piece) => length + piece.length, 0));
+  let offset = 0;
+  for (const piece of pieces) {
+    joined.set(piece, offset);
+    offset += piece.length;
+  }
+  return joined;
+}
+
+function shiftTimes<T extends { time: number }>(items: T[], offset: number, from: number, to: number): T[] {
+  return items
+    .map(item => ({ ...item, time: item.time + offset }))
+    .filter(item => item.time >= from && item.time < to);
+}
+
+// Mean level of each BLOCK_SIZE block, averaged down to WAVEFORM_POINTS and
+// scaled to a peak of 1 like extractWaveformData. `blockCount` spreads the
+// points over that many blocks, leaving those not yet received flat.
+function waveformFromBlocks(levels: number[], blockCount = levels.length): number[] {
+  const points: number[] = [];
+  for (let i = 0; i < WAVEFORM_POINTS; i++) {
+    const first = Math.floor((i * blockCount) / WAVEFORM_POINTS);
+    const last = Math.max(first + 1, Math.floor(((i + 1) * blockCount) / WAVEFORM_POINTS));
+    const block = levels.slice(first, last);
+    points.push(block.length > 0 ? block.reduce((a, b) => a + b, 0) / block.length : 0);
+  }
+  const peak = Math.max(...points);
+  return peak > 0 ? points.map(point => point / peak) : points;
+}
+
+// The pipeline of analyze() over a recording that arrives in consecutive
+// blocks of samples, one array per channel. Only the current window of audio
+// is held; what outlives it is the transcription so far and the compact
+// features the whole-recording steps need: onset flux for beat tracking,
+// chroma frames for key and chords, and the waveform levels. Tuning is
+// estimated on the first window. Follows params.channelMode and
+// params.region like analyzeChannels, and reports each window's notes and
+// chords through `onPartial` as soon as it is done.
+export async function analyzeStream(
+  chunks: AsyncIterable<Float32Array[]> | Iterable<Float32Array[]>,
+  sampleRate: number,
+  params: AnalysisParams,
+  { duration: totalDuration, onPartial, ...options }: StreamAnalyzeOptions = {}
+): Promise<AnalysisResult> {
+  const stage = stageReporter(options);
+  const region = totalDuration === undefined
+    ? params.region
+    : clampRegion(params.region, totalDuration);
+  const firstSample = region ? Math.round(region.start * sampleRate) : 0;
+  const endSample = region ? Math.round(region.end * sampleRate) : Infinity;
+  const expectedDuration = region
+    ? region.end - region.start
+    : totalDuration;
+
+  const windowLength = Math.max(1, Math.round((WINDOW_SECONDS * sampleRate) / BLOCK_SIZE)) * BLOCK_SIZE;
+  const contextLength = Math.round((CONTEXT_SECONDS * sampleRate) / BLOCK_SIZE) * BLOCK_SIZE;
+  const extract = (samples: Float32Array, reference: number): MelodyExtraction => params.polyphonic
+    ? extractPolyphonic(samples, sampleRate, params, reference)
+    : extractMelody(samples, sampleRate, params, reference);
+
+  let channelCount = 0;
+  let perChannel = false;
+  // Samples held per lane, as received: the analyzed channel, or every
+  // channel in per-channel mode. `heldStart` is the index of the first one.
+  let held: Float32Array[][] = [];
+  let heldStart = 0;
+  let received = 0;
+  let windowStart = 0;
+  let referencePitch: number | undefined;
+
+  const melody: Note[] = [];
+  const bass: Note[] = [];
+  const drums: DrumHit[] = [];
+  const layers: ChannelLayer[] = [];
+  const pitchClassHistogram = new Array(12).fill(0);
+  const chromagram: Chromagram = { times: [], frames: [], energy: [], hopDuration: 0 };
+  const flux: number[] = [];
+  const lowFlux: number[] = [];
+  const levels: number[] = [];
+
+  const analyzeWindow = async (coreStart: number, coreEnd: number) => {
+    const from = coreStart / sampleRate;
+    const to = coreEnd / sampleRate;
+    await stage(
+      "detecting",
+      expectedDuration ? 20 + Math.round((65 * from) / expectedDuration) : 20,
+      `Analyzing ${Math.round(from)}s to ${Math.round(to)}s...`
+    );
+
+    const start = Math.max(0, coreStart - contextLength);
+    const end = Math.min(received, coreEnd + contextLength);
+    held = held.map(pieces => [joinSamples(pieces)]);
+    const lanes = held.map(([samples]) => samples.subarray(start - heldStart, end - heldStart));
+    const samples = lanes[0];
+    const offset = start / sampleRate;
+
+    referencePitch ??= Math.round(tuningReference(estimateTuning(samples, sampleRate)) * 10) / 10;
+
+    const extraction = extract(samples, referencePitch);
+    const windowMelody = shiftTimes(extraction.notes, offset, from, to);
+    extraction.pitchClassHistogram.forEach((weight, i) => { pitchClassHistogram[i] += weight; });
+    melody.push(...windowMelody);
+
+    const windowBass = params.extractBass
+      ? shiftTimes(extractBass(samples, sampleRate, params, referencePitch), offset, from, to)
+      : undefined;
+    if (windowBass) bass.push(...windowBass);
+
+    for (let lane = 1; lane < lanes.length; lane++) {
+      const layer = layers[lane - 1];
+      layer.melody.push(...shiftTimes(extract(lanes[lane], referencePitch).notes, offset, from, to));
+      if (params.extractBass) {
+        layer.bass!.push(...shiftTimes(extractBass(lanes[lane], sampleRate, params, referencePitch), offset, from, to));
+      }
+    }
+
+    if (params.detectDrums) drums.push(...shiftTimes(detectDrums(samples, sampleRate), offset, from, to));
+
+    const windowChroma = computeChromagram(samples, sampleRate, referencePitch);
+    chromagram.hopDuration = windowChroma.hopDuration;
+    const coreChroma: Chromagram = { times: [], frames: [], energy: [], hopDuration: windowChroma.hopDuration };
+    windowChroma.times.forEach((time, i) => {
+      if (time + offset < from || time + offset >= to) return;
+      chromagram.times.push(time + offset);
+      chromagram.frames.push(windowChroma.frames[i]);
+      chromagram.energy.push(windowChroma.energy[i]);
+      coreChroma.times.push(time + offset - from);
+      coreChroma.frames.push(windowChroma.frames[i]);
+      coreChroma.energy.push(windowChroma.energy[i]);
+    });
+
+    // Onset frame f of the window is frame f + start / hop of the recording.
+    const windowFlux = rawSpectralFlux(samples, sampleRate);
+    const windowLowFlux = rawSpectralFlux(samples, sampleRate, { maxFrequency: 200 });
+    const firstFrame = (coreStart - start) / ONSET_HOP_SIZE;
+    const lastFrame = Math.min(windowFlux.length, Math.ceil((coreEnd - start) / ONSET_HOP_SIZE));
+    for (let f = firstFrame; f < lastFrame; f++) {
+      flux.push(windowFlux[f]);
+      lowFlux.push(windowLowFlux[f]);
+    }
+
+    for (let i = coreStart - start; i < coreEnd - start; i += BLOCK_SIZE) {
+      const block = samples.subarray(i, Math.min(i + BLOCK_SIZE, coreEnd - start));
+      let sum = 0;
+      for (let j = 0; j < block.length; j++) sum += Math.abs(block[j]);
+      levels.push(sum / block.length);
+    }
+
+    if (onPartial) {
+      // Provisional chords over the window's own beats; the final ones are
+      // recognized on the beats of the whole recording.
+      const frameRate = sampleRate / ONSET_HOP_SIZE;
+      const windowBeats = trackBeatsFromOnsets(
+        fluxToEnvelope(windowFlux, frameRate),
+        fluxToEnvelope(windowLowFlux, frameRate),
+        beatTrackingOptionsFromParams(params)
+      ).beats
+        .map(time => time + offset - from)
+        .filter(time => time >= 0 && time < to - from);
+      const chords = shiftTimes(chordsFromChromagram(coreChroma, to - from, windowBeats), from, from, to);
+      const blockCount = expectedDuration
+        ? Math.max(levels.length, Math.ceil((expectedDuration * sampleRate) / BLOCK_SIZE))
+        : levels.length;
+      onPartial({
+        melody: windowMelody,
+        bass: windowBass,
+        chords,
+        time: to,
+        duration: expectedDuration,
+        waveformData: waveformFromBlocks(levels, blockCount),
+      });
+    }
+  };
+
+  let position = 0;
+  for await (const chunk of chunks) {
+    if (channelCount === 0) {
+      channelCount = chunk.length;
+      perChannel = params.channelMode === "per-channel" && channelCount > 1;
+      held = Array.from({ length: perChannel ? channelCount : 1 }, () => []);
+      for (let i = 1; perChannel && i < channelCount; i++) {
+        layers.push({ channel: channelName(i, channelCount), melody: [], bass: params.extractBass ? [] : undefined });
+      }
+    }
+
+    const chunkStart = position;
+    position += chunk[0]?.length ?? 0;
+    const skip = Math.max(0, firstSample - chunkStart);
+    const take = Math.min(position, endSample) - chunkStart;
+    if (take > skip) {
+      const lanes = perChannel ? chunk : [selectChannel(chunk, params.channelMode)];
+      // Copied, so a block that shares a larger buffer doesn't keep it alive.
+      held.forEach((pieces, i) => pieces.push(lanes[i].slice(skip, take)));
+      received += take - skip;
+    }
+
+    while (received >= windowStart + windowLength + contextLength) {
+      await analyzeWindow(windowStart, windowStart + windowLength);
+      windowStart += windowLength;
+      const keepFrom = Math.max(heldStart, windowStart - contextLength);
+      held = held.map(([samples]) => [samples.slice(keepFrom - heldStart)]);
+      heldStart = keepFrom;
+    }
+    if (position >= endSample) break;
+  }
+
+  if (received === 0) throw new Error("The recording holds no audio to analyze");
+  while (windowStart < received) {
+    await analyzeWindow(windowStart, Math.min(received, windowStart + windowLength));
+    windowStart += windowLength;
+  }
+
+  await stage("analyzing", 88, "Tracking tempo and beats...");
+  const frameRate = sampleRate / ONSET_HOP_SIZE;
+  const tracking = trackBeatsFromOnsets(
+    fluxToEnvelope(Float64Array.from(flux), frameRate),
+    fluxToEnvelope(Float64Array.from(lowFlux), frameRate),
+    beatTrackingOptionsFromParams(params)
+  );
+
+  await stage("generating", 90, "Generating Strudel code...");
+  const result = assembleResult({
+    duration: received / sampleRate,
+    sampleRate,
+    waveformData: waveformFromBlocks(levels),
+    tracking,
+    referencePitch: referencePitch!,
+    melody,
+    pitchClassHistogram,
+    bass: params.extractBass ? bass : undefined,
+    chromagram,
+    drums: params.detectDrums ? drums : undefined,
+    channelLayers: perChannel ? layers : undefined,
+  }, params);
+  return { ...result, channel: analyzedChannel(params.channelMode, channelCount), region };
+}
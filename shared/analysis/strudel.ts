@@ -0,0 +1,443 @@
+import type {
+  AnalysisParams,
+  ChannelLayer,
+  Chord,
+  ChordNotation,
+  DrumHit,
+  DrumInstrument,
+  Groove,
+  KeySegment,
+  Notation,
+  Note,
+  StrudelCode,
+  VoicingDictionary,
+} from "../schema";
+import { beatToTime, timeToBeat } from "./beats";
+import { parseChordName, spellChordName, toStrudelChordSymbol } from "./chords";
+import { midiToDegree, scaleName, scaleOctave, tonicMidi } from "./degrees";
+import { activeKey, usesFlats } from "./key";
+import { renderBars, renderCycles, type GridEvent, type Segment } from "./mini-notation";
+import { formatNoteForStrudel, noteToMidi, spellNote } from "./notes";
+import { getSubdivisions } from "./quantize";
+import { unswingBeat } from "./swing";
+
+interface TimedToken {
+  time: number;
+  duration?: number;
+  token: string;
+}
+
+export interface StrudelOptions {
+  // Grid the notes are written on. Unquantized notes are snapped to it too.
+  quantizeValue?: string;
+  notation?: Notation;
+  // Notes starting and ending on the same steps are stacked as `[c4,e4,g4]`
+  // instead of keeping only one of them; other overlapping notes are written
+  // as separate voices.
+  polyphonic?: boolean;
+  // Key the melody's scale degrees are relative to in "degrees" notation.
+  key?: string;
+  // Key over time. Overrides `key` where it covers the song: degrees follow
+  // the key of each bar and chords are spelled for the key they fall in.
+  keySegments?: KeySegment[];
+  chordNotation?: ChordNotation;
+  voicingDictionary?: VoicingDictionary;
+  chordBass?: boolean;
+  // Extracted bass line, written as its own layer when there are notes.
+  bass?: Note[];
+  // Adds an s("bd sd hh") layer when there are hits.
+  drums?: DrumHit[];
+  // Bar starts. Bars are counted from the first one, and whatever comes
+  // before it is a pickup written after a rest at the end of the bar before.
+  downbeats?: number[];
+  // Swing ratio the timings were played with. Events are written on the
+  // straight grid and the stack is swung back with swingBy().
+  swing?: number;
+  // Further channels of a per-channel analysis, each written as its own
+  // melody and bass layers. The channels are panned apart, the analyzed one
+  // (melody and bass) hard left.
+  channelLayers?: ChannelLayer[];
+}
+
+// Saved analyses may predate some of these params, hence the Partial.
+export function strudelOptionsFromParams(
+  params: Partial<AnalysisParams>,
+  key?: string,
+  groove?: Groove
+): StrudelOptions {
+  return {
+    quantizeValue: params.quantizeValue,
+    notation: params.notation,
+    polyphonic: params.polyphonic,
+    key,
+    chordNotation: params.chordNotation,
+    voicingDictionary: params.voicingDictionary,
+    chordBass: params.chordBass,
+    swing: params.swingQuantize ? groove?.swing : undefined,
+  };
+}
+
+// One line of the stack: events written as `fn("...")` followed by `chain`.
+interface Layer {
+  name: string;
+  fn: string;
+  events: GridEvent[];
+  // The events split into lines that never overlap, when one line can't
+  // hold them all. Written as `stack(fn("..."), fn("..."))` before `chain`.
+  voices?: GridEvent[][];
+  chain: string;
+}
+
+const BASS_OCTAVE = 2;
+const BASS_CHAIN = `.sound("sawtooth").lpf(600)`;
+const DRUM_ORDER: DrumInstrument[] = ["bd", "sd", "hh"];
+
+interface Arrangement {
+  consts: string[];
+  pattern: string;
+  // Mini-notation plus sequencing the reader has to take in; declaration
+  // boilerplate is not counted against splitting a layer into phrases.
+  size: number;
+}
+
+const PHRASE_LENGTHS = [1, 2, 4, 8];
+
+// Merges events that start and end on the same steps into one `[a,b]`
+// token, ordered by `order`.
+function stackSimultaneous(events: GridEvent[], order: (a: string, b: string) => number): GridEvent[] {
+  const bySpan = new Map<string, GridEvent[]>();
+  for (const event of events) {
+    const span = `${event.start}:${event.end}`;
+    if (!bySpan.has(span)) bySpan.set(span, []);
+    bySpan.get(span)!.push(event);
+  }
+
+  return Array.from(bySpan.values(), group => {
+    const tokens = Array.from(new Set(group.map(event => event.token))).sort(order);
+    return {
+      start: group[0].start,
+      end: group[0].end,
+      token: tokens.length === 1 ? tokens[0] : `[${tokens.join(",")}]`,
+    };
+  }).sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+// Deals events out to as few voices as possible so that none overlaps
+// another in the same voice. A note held under a moving line keeps its whole
+// length on a voice of its own. Events must be sorted by start.
+function splitVoices(events: GridEvent[]): GridEvent[][] {
+  const voices: GridEvent[][] = [];
+  for (const event of events) {
+    const voice = voices.find(notes => notes[notes.length - 1].end <= event.start);
+    if (voice) voice.push(event);
+    else voices.push([event]);
+  }
+  return voices;
+}
+
+// Events of a polyphonic layer: notes sharing their steps stacked, the rest
+// in voices.
+function polyphonicEvents(
+  events: GridEvent[],
+  order: (a: string, b: string) => number
+): Pick<Layer, "events" | "voices"> {
+  const voices = splitVoices(stackSimultaneous(events, order));
+  return { events: voices.flat(), voices: voices.length > 1 ? voices : undefined };
+}
+
+// One value per bar as mini-notation: the value itself when it never changes,
+// otherwise "<a!4 b!2>".
+function barSequence(values: string[]): string {
+  const runs: { value: string; count: number }[] = [];
+  for (const value of values) {
+    const previous = runs[runs.length - 1];
+    if (previous?.value === value) previous.count++;
+    else runs.push({ value, count: 1 });
+  }
+  if (runs.length === 1) return runs[0].value;
+  return `<${runs.map(({ value, count }) => (count > 1 ? `${value}!${count}` : value)).join(" ")}>`;
+}
+
+// Names the phrases a layer is built from and sequences them with arrange()
+// when some phrase comes back later in the piece. Keeps the single pattern
+// string whenever that is shorter. `fn` is the Strudel function the
+// mini-notation is passed to.
+function arrangeLayer(name: string, bars: Segment[][], fn: string): Arrangement {
+  const flat = `${fn}("${renderCycles(bars)}")`;
+  let best: Arrangement = { consts: [], pattern: flat, size: flat.length };
+
+  for (const length of PHRASE_LENGTHS) {
+    if (length * 2 > bars.length) break;
+
+    const runs: { phrase: string; cycles: number }[] = [];
+    for (let start = 0; start < bars.length; start += length) {
+      const phrase = renderCycles(bars.slice(start, start + length));
+      const cycles = Math.min(length, bars.length - start);
+      const previous = runs[runs.length - 1];
+      if (previous?.phrase === phrase) previous.cycles += cycles;
+      else runs.push({ phrase, cycles });
+    }
+
+    const phrases = Array.from(new Set(runs.map(run => run.phrase)));
+    if (phrases.length < 2 || phrases.length > 26 || phrases.length === runs.length) continue;
+
+    const names = phrases.map((_, i) => `${name}${String.fromCharCode(65 + i)}`);
+    const pattern = `arrange(${runs.map(run => `[${run.cycles}, ${names[phrases.indexOf(run.phrase)]}]`).join(", ")})`;
+    const size = phrases.reduce((total, phrase) => total + phrase.length, pattern.length);
+    if (size < best.size) {
+      best = {
+        consts: phrases.map((phrase, i) => `const ${names[i]} = ${fn}("${phrase}")`),
+        pattern,
+        size,
+      };
+    }
+  }
+
+  return best;
+}
+
+export function generateStrudelCode(
+  melody: Note[],
+  chords: Chord[],
+  tempo: number,
+  timeSignature: string = "4/4",
+  beats: number[] = [],
+  {
+    quantizeValue = "1/16",
+    notation = "notes",
+    polyphonic = false,
+    key,
+    keySegments = [],
+    chordNotation = "notes",
+    voicingDictionary = "ireal",
+    chordBass = false,
+    bass = [],
+    drums = [],
+    downbeats = [],
+    swing = 1,
+    channelLayers = [],
+  }: StrudelOptions = {}
+): StrudelCode {
+  // A bar is `beatsPerBar` beats from one downbeat to the next, and each bar
+  // becomes one Strudel cycle.
+  const beatsPerBar = parseInt(timeSignature, 10) || 4;
+  const stepsPerBeat = getSubdivisions(quantizeValue);
+  const stepsPerBar = beatsPerBar * stepsPerBeat;
+
+  // Measure positions against the detected beats when we have them, otherwise
+  // against a fixed grid derived from the tempo, counting from the first
+  // downbeat.
+  const beatPosition = (time: number) => (beats.length < 2 ? (time * tempo) / 60 : timeToBeat(time, beats));
+  const phase = downbeats.length > 0 ? Math.round(beatPosition(downbeats[0])) : 0;
+  const beatAt = (time: number) => unswingBeat(beatPosition(time), swing) - phase;
+  const step = (time: number) => Math.round(beatAt(time) * stepsPerBeat);
+  const toSteps = (items: TimedToken[]): GridEvent[] =>
+    items.map(({ time, duration, token }, i) => {
+      const start = step(time);
+      // Notes without a length are held until the next one starts.
+      const endTime = duration !== undefined ? time + duration : items[i + 1]?.time;
+      const end = endTime === undefined ? start + 1 : step(endTime);
+      return { start, end: Math.max(start + 1, end), token };
+    });
+
+  const timeAtBeat = (beat: number) => (beats.length < 2 ? (beat * 60) / tempo : beatToTime(beat, beats));
+  const keyAt = (time: number) => activeKey(keySegments, time) ?? key;
+  const keyOfBar = (bar: number) => keyAt(timeAtBeat(bar * beatsPerBar + phase))!;
+  // Note names take the accidentals of the key they sound in: bf in Dm, as in B.
+  const flatsAt = (time: number) => usesFlats(keyAt(time) ?? "C");
+  const noteToken = (note: Note) => spellNote(formatNoteForStrudel(note.note), flatsAt(note.time));
+
+  // Degrees are written against the tonic nearest the middle of the melody;
+  // the scale then carries the key and octave as a single editable word.
+  // When the key changes, each bar is written in the key it starts in.
+  const useDegrees = notation === "degrees" && key !== undefined;
+  const melodyMidi = melody.map(note => noteToMidi(note.note));
+  const octaveOf = (barKey: string) => scaleOctave(barKey, melodyMidi);
+
+  const melodyEvents = toSteps(
+    melody.map((note, i) => {
+      if (!useDegrees) {
+        return { time: note.time, duration: note.duration, token: noteToken(note) };
+      }
+      const barKey = keyOfBar(Math.floor(step(note.time) / stepsPerBar));
+      return {
+        time: note.time,
+        duration: note.duration,
+        token: midiToDegree(melodyMidi[i], barKey, tonicMidi(barKey, octaveOf(barKey))),
+      };
+    })
+  );
+  // Stacked tokens list the lowest note first.
+  const pitchOf = new Map(melodyEvents.map((event, i) => [event.token, melodyMidi[i]]));
+  const byPitch = (a: string, b: string) => (pitchOf.get(a) ?? 0) - (pitchOf.get(b) ?? 0);
+
+  const melodyLayer: Layer = {
+    name: "melody",
+    fn: useDegrees ? "n" : "note",
+    ...(polyphonic ? polyphonicEvents(melodyEvents, byPitch) : { events: melodyEvents }),
+    // The scale of a degree melody is filled in once the bars are known.
+    chain: `.sound("piano")`,
+  };
+
+  const useSymbols = chordNotation === "symbols";
+  const dictionary = voicingDictionary === "ireal" ? "" : `.dict("${voicingDictionary}")`;
+  const chordLayer: Layer = {
+    name: "chords",
+    fn: useSymbols ? "chord" : "note",
+    events: toSteps(
+      chords.map(chord => {
+        const flats = flatsAt(chord.time);
+        return {
+          time: chord.time,
+          duration: chord.duration,
+          token: useSymbols
+            ? toStrudelChordSymbol(spellChordName(chord.name, flats))
+            : `[${chord.notes.map(n => spellNote(formatNoteForStrudel(n), flats)).join(",")}]`,
+        };
+      })
+    ),
+    chain: `${useSymbols ? `${dictionary}.voicing()` : ""}.sound("piano")`,
+  };
+
+  const layers = [melodyLayer, chordLayer];
+  if (bass.length > 0) {
+    layers.push({
+      name: "bass",
+      fn: "note",
+      events: toSteps(
+        bass.map(note => ({ time: note.time, duration: note.duration, token: noteToken(note) }))
+      ),
+      chain: BASS_CHAIN,
+    });
+  }
+  if (chordBass && chords.length > 0) {
+    layers.push({
+      name: "roots",
+      fn: "note",
+      events: toSteps(
+        chords.map(chord => ({
+          time: chord.time,
+          duration: chord.duration,
+          token: spellNote(
+            formatNoteForStrudel(`${parseChordName(chord.name).root}${BASS_OCTAVE}`),
+            flatsAt(chord.time)
+          ),
+        }))
+      ),
+      chain: BASS_CHAIN,
+    });
+  }
+
+  if (channelLayers.length > 0) {
+    const panOf = (index: number) => Math.round((index / channelLayers.length) * 100) / 100;
+    for (const layer of layers) {
+      if (layer.name === "melody" || layer.name === "bass") layer.chain += `.pan(${panOf(0)})`;
+    }
+    // Other channels keep note names: their degrees would need a scale each.
+    channelLayers.forEach((channel, i) => {
+      const name = channel.channel.replace(/\W+/g, "");
+      const lines: [string, Note[], string][] = [
+        [`${name}Melody`, channel.melody, `.sound("piano")`],
+        [`${name}Bass`, channel.bass ?? [], BASS_CHAIN],
+      ];
+      for (const [layerName, notes, chain] of lines) {
+        if (notes.length === 0) continue;
+        const events = toSteps(notes.map(note => ({
+          time: note.time,
+          duration: note.duration,
+          token: noteToken(note),
+        })));
+        const midiOf = new Map(events.map((event, j) => [event.token, noteToMidi(notes[j].note)]));
+        layers.push({
+          name: layerName,
+          fn: "note",
+          ...(polyphonic
+            ? polyphonicEvents(events, (a, b) => (midiOf.get(a) ?? 0) - (midiOf.get(b) ?? 0))
+            : { events }),
+          chain: `${chain}.pan(${panOf(i + 1)})`,
+        });
+      }
+    });
+  }
+
+  if (drums.length > 0) {
+    // Hits on the same step play together: `[bd,hh]`. Each lasts until the
+    // next so the pattern needs no rests between them.
+    const hits = stackSimultaneous(
+      drums.map(hit => ({ start: step(hit.time), end: step(hit.time) + 1, token: hit.instrument })),
+      (a, b) => DRUM_ORDER.indexOf(a as DrumInstrument) - DRUM_ORDER.indexOf(b as DrumInstrument)
+    );
+    layers.push({
+      name: "drums",
+      fn: "s",
+      events: hits.map((hit, i) => ({ ...hit, end: hits[i + 1]?.start ?? hit.end })),
+      chain: "",
+    });
+  }
+
+  // All layers share the first bar and bar count so they stay aligned when
+  // the stack loops.
+  const allEvents = layers.flatMap(layer => layer.events);
+  const firstBar = allEvents.length > 0
+    ? Math.floor(Math.min(...allEvents.map(e => e.start)) / stepsPerBar)
+    : 0;
+  const lastStep = allEvents.length > 0 ? Math.max(...allEvents.map(e => e.end)) : 0;
+  const barCount = Math.max(1, Math.ceil(lastStep / stepsPerBar) - firstBar);
+  const offset = firstBar * stepsPerBar;
+
+  if (useDegrees) {
+    const scales = Array.from({ length: barCount }, (_, i) => {
+      const barKey = keyOfBar(firstBar + i);
+      return scaleName(barKey, octaveOf(barKey));
+    });
+    melodyLayer.chain = `.scale("${barSequence(scales)}")${melodyLayer.chain}`;
+  }
+
+  const cyclesPerMinute = Math.round((tempo / beatsPerBar) * 100) / 100;
+  // swingBy(x, n) delays the second half of each of n slices per cycle by x/2
+  // of a slice; with one slice per beat that moves the off-beat eighth from
+  // 1/2 to swing/(1 + swing) of the beat.
+  const swingAmount = Math.round(((swing - 1) / (swing + 1)) * 1000) / 1000;
+  const feel = swingAmount > 0 ? `.swingBy(${swingAmount}, ${beatsPerBar})` : "";
+
+  const rendered = new Map(layers.map(layer => {
+    if (layer.events.length === 0) {
+      const silent = `${layer.fn}("~")${layer.chain}`;
+      return [layer.name, { flat: silent, arrangement: { consts: [], pattern: silent, size: 0 } }];
+    }
+    const toBars = (events: GridEvent[]) => renderBars(
+      events.map(e => ({ ...e, start: e.start - offset, end: e.end - offset })),
+      stepsPerBar,
+      barCount
+    );
+    if (layer.voices) {
+      const voices = layer.voices.map(voice => `${layer.fn}("${renderCycles(toBars(voice))}")`);
+      const pattern = `stack(${voices.join(", ")})${layer.chain}`;
+      return [layer.name, { flat: pattern, arrangement: { consts: [], pattern, size: pattern.length } }];
+    }
+    const bars = toBars(layer.events);
+    const arrangement = arrangeLayer(layer.name, bars, layer.fn);
+    return [layer.name, {
+      flat: `${layer.fn}("${renderCycles(bars)}")${layer.chain}`,
+      arrangement: { ...arrangement, pattern: `${arrangement.pattern}${layer.chain}` },
+    }];
+  }));
+  const arrangements = Array.from(rendered.values(), ({ arrangement }) => arrangement);
+  const flat = (name: string, fallback: string) =>
+    `${rendered.get(name)?.flat ?? fallback}${feel}.cpm(${cyclesPerMinute})`;
+
+  const consts = arrangements.flatMap(arrangement => arrangement.consts);
+  const combined = `// Tempo: ${tempo} BPM, Time Signature: ${timeSignature} (one cycle per bar)
+// Melody: ${melody.length} notes, Chords: ${chords.length} chords, Bass: ${bass.length} notes, Drums: ${drums.length} hits, ${barCount} bars
+${channelLayers.length > 0 ? `// Other channels: ${channelLayers.map(channel => `${channel.channel} ${channel.melody.length} notes`).join(", ")}\n` : ""}${feel ? `// Swing: ${swing}:1, written straight and swung with swingBy\n` : ""}${consts.length > 0 ? `${consts.join("\n")}\n\n` : ""}stack(
+${arrangements.map(arrangement => `  ${arrangement.pattern}`).join(",\n")}
+)${feel}.cpm(${cyclesPerMinute})`;
+
+  return {
+    melody: flat("melody", `note("~")`),
+    chords: flat("chords", `note("~")`),
+    bass: flat("bass", `note("~")`),
+    drums: flat("drums", `s("~")`),
+    combined,
+  };
+}
@@ -0,0 +1,95 @@
+import type { Groove } from "../schema";
+import { beatToTime, timeToBeat } from "./beats";
+
+// Off-beat eighth positions tried, as a fraction of the beat: straight (0.5)
+// up to a hard shuffle of 2.33:1. Later than that, a straight sixteenth on
+// the last quarter of the beat explains the onsets as well.
+const MIN_OFFBEAT = 0.5;
+const MAX_OFFBEAT = 0.7;
+const SEARCH_STEP = 0.005;
+// Spread of onsets around a grid position, in beats.
+const TIMING_SPREAD = 0.025;
+// Swing needs this many onsets on the off-beat to count as a feel.
+const MIN_OFFBEAT_ONSETS = 4;
+// Ratios below this are played straight.
+const MIN_SWING = 1.1;
+const SIXTEENTHS_PER_BEAT = 4;
+
+export const STRAIGHT: Groove = { swing: 1, microtiming: new Array(SIXTEENTHS_PER_BEAT).fill(0) };
+
+function offbeatPosition(swing: number): number {
+  return swing / (1 + swing);
+}
+
+// Moves a beat position from a straight grid to the swung one: the first half
+// of each beat is stretched up to the late off-beat and the second half
+// squeezed after it.
+export function swingBeat(beat: number, swing: number): number {
+  if (swing === 1) return beat;
+  const whole = Math.floor(beat);
+  const fraction = beat - whole;
+  const offbeat = offbeatPosition(swing);
+  return whole + (fraction < 0.5 ? fraction * 2 * offbeat : offbeat + (fraction - 0.5) * 2 * (1 - offbeat));
+}
+
+export function unswingBeat(beat: number, swing: number): number {
+  if (swing === 1) return beat;
+  const whole = Math.floor(beat);
+  const fraction = beat - whole;
+  const offbeat = offbeatPosition(swing);
+  return whole + (fraction < offbeat ? fraction / (2 * offbeat) : 0.5 + (fraction - offbeat) / (2 * (1 - offbeat)));
+}
+
+function fraction(beat: number): number {
+  return beat - Math.floor(beat);
+}
+
+// Distance from a beat fraction to the nearest sixteenth of the grid swung
+// so the off-beat eighth falls on `offbeat`.
+function gridDistance(phase: number, offbeat: number): number {
+  const grid = [0, offbeat / 2, offbeat, (1 + offbeat) / 2, 1];
+  return Math.min(...grid.map(position => Math.abs(phase - position)));
+}
+
+// Swing ratio and per-sixteenth timing feel from onset positions on the beat
+// grid. Each off-beat position is scored by how closely the onsets fit the
+// sixteenth grid it implies, so straight sixteenths don't read as a shuffle.
+export function estimateGroove(onsets: number[], beats: number[]): Groove {
+  if (beats.length < 2 || onsets.length === 0) return STRAIGHT;
+
+  const phases = onsets.map(time => fraction(timeToBeat(time, beats)));
+  let offbeat = MIN_OFFBEAT;
+  let bestFit = -Infinity;
+  for (let candidate = MIN_OFFBEAT; candidate <= MAX_OFFBEAT + 1e-9; candidate += SEARCH_STEP) {
+    const fit = phases.reduce(
+      (sum, phase) => sum + Math.exp(-0.5 * (gridDistance(phase, candidate) / TIMING_SPREAD) ** 2),
+      0
+    );
+    if (fit > bestFit) {
+      bestFit = fit;
+      offbeat = candidate;
+    }
+  }
+
+  // Refine with the onsets that landed near the chosen off-beat.
+  const nearOffbeat = phases.filter(phase => Math.abs(phase - offbeat) <= 2 * TIMING_SPREAD);
+  let swing = 1;
+  if (nearOffbeat.length >= MIN_OFFBEAT_ONSETS) {
+    const position = nearOffbeat.reduce((a, b) => a + b, 0) / nearOffbeat.length;
+    const ratio = position / (1 - position);
+    if (ratio >= MIN_SWING) swing = Math.round(ratio * 100) / 100;
+  }
+
+  // Average lead or lag of each sixteenth once swing is accounted for.
+  const totals = new Array(SIXTEENTHS_PER_BEAT).fill(0);
+  const counts = new Array(SIXTEENTHS_PER_BEAT).fill(0);
+  for (const time of onsets) {
+    const step = Math.round(unswingBeat(timeToBeat(time, beats), swing) * SIXTEENTHS_PER_BEAT);
+    const slot = ((step % SIXTEENTHS_PER_BEAT) + SIXTEENTHS_PER_BEAT) % SIXTEENTHS_PER_BEAT;
+    totals[slot] += time - beatToTime(swingBeat(step / SIXTEENTHS_PER_BEAT, swing), beats);
+    counts[slot]++;
+  }
+  const microtiming = totals.map((total, i) => (counts[i] > 0 ? Math.round((total / counts[i]) * 10000) / 10 : 0));
+
+  return { swing, microtiming };
+}
@@ -0,0 +1,266 @@
+import type { AnalysisParams } from "../schema";
+import { pickOnsets, spectralFlux, type OnsetEnvelope } from "./onset";
+import { detectMeter } from "./meter";
+
+const MIN_BPM = 30;
+const MAX_BPM = 300;
+const PREFERRED_MIN_BPM = 60;
+const PREFERRED_MAX_BPM = 200;
+const PRIOR_CENTER_BPM = 120;
+const PRIOR_OCTAVE_WIDTH = 0.6;
+const TEMPOGRAM_WINDOW_SECONDS = 8;
+const TEMPOGRAM_HOP_SECONDS = 1;
+const BEAT_TIGHTNESS = 100;
+
+export interface Tempogram {
+  // One autocorrelation row per analysis window, indexed by lag in onset frames.
+  rows: Float64Array[];
+  frameRate: number;
+}
+
+export interface BeatTrackingResult {
+  tempo: number;
+  beats: number[];
+  downbeats: number[];
+  // Full-band onset times, for timing analysis against the beats.
+  onsets: number[];
+  // Set when the meter was detected rather than given.
+  timeSignature?: string;
+}
+
+export interface BeatTrackingOptions {
+  beatsPerBar?: number;
+  // Skip tempo estimation and track beats at this BPM.
+  tempo?: number;
+  // Detect the meter from beat accents instead of using beatsPerBar.
+  detectMeter?: boolean;
+}
+
+export function beatTrackingOptionsFromParams(params: AnalysisParams): BeatTrackingOptions {
+  return {
+    beatsPerBar: parseInt(params.timeSignature, 10) || 4,
+    tempo: params.autoDetectTempo ? undefined : params.targetTempo,
+    detectMeter: params.autoDetectTimeSignature,
+  };
+}
+
+export function computeTempogram({ envelope, frameRate }: OnsetEnvelope): Tempogram {
+  const maxLag = Math.ceil((60 / MIN_BPM) * frameRate);
+  const windowFrames = Math.min(envelope.length, Math.round(TEMPOGRAM_WINDOW_SECONDS * frameRate));
+  const hopFrames = Math.max(1, Math.round(TEMPOGRAM_HOP_SECONDS * frameRate));
+  const rows: Float64Array[] = [];
+
+  for (let start = 0; start === 0 || start + windowFrames <= envelope.length; start += hopFrames) {
+    const row = new Float64Array(maxLag + 1);
+    for (let lag = 0; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = start; i + lag < start + windowFrames; i++) {
+        sum += envelope[i] * envelope[i + lag];
+      }
+      row[lag] = sum;
+    }
+    if (row[0] > 0) {
+      for (let lag = maxLag; lag >= 0; lag--) {
+        row[lag] /= row[0];
+      }
+    }
+    rows.push(row);
+  }
+
+  return { rows, frameRate };
+}
+
+function lagScore(acf: Float64Array, lag: number): number {
+  const low = Math.floor(lag);
+  const high = Math.min(acf.length - 1, low + 1);
+  if (low < 1 || low >= acf.length) return 0;
+  const fraction = lag - low;
+  return acf[low] * (1 - fraction) + acf[high] * fraction;
+}
+
+// Picks the strongest periodicity under a log-normal tempo prior, then resolves
+// octave errors by summing the evidence at half and double the period and
+// folding the winner into the preferred 60-200 BPM range.
+export function estimateTempo(tempogram: Tempogram): number {
+  const { rows, frameRate } = tempogram;
+  if (rows.length === 0) return PRIOR_CENTER_BPM;
+
+  const acf = new Float64Array(rows[0].length);
+  for (const row of rows) {
+    for (let lag = 0; lag < acf.length; lag++) {
+      acf[lag] += row[lag] / rows.length;
+    }
+  }
+
+  const scoreAt = (bpm: number) => {
+    const lag = (60 * frameRate) / bpm;
+    const harmonic = lagScore(acf, lag) + 0.5 * lagScore(acf, lag * 2) + 0.5 * lagScore(acf, lag / 2);
+    const octaves = Math.log2(bpm / PRIOR_CENTER_BPM) / PRIOR_OCTAVE_WIDTH;
+    return harmonic * Math.exp(-0.5 * octaves * octaves);
+  };
+
+  let bestBpm = PRIOR_CENTER_BPM;
+  let bestScore = -Infinity;
+  for (let tenths = MIN_BPM * 10; tenths <= MAX_BPM * 10; tenths++) {
+    const bpm = tenths / 10;
+    const score = scoreAt(bpm);
+    if (score > bestScore) {
+      bestScore = score;
+      bestBpm = bpm;
+    }
+  }
+
+  while (bestBpm < PREFERRED_MIN_BPM) bestBpm *= 2;
+  while (bestBpm > PREFERRED_MAX_BPM) bestBpm /= 2;
+
+  return Math.round(bestBpm);
+}
+
+// Dynamic-programming beat tracker (Ellis, 2007). Each frame's score is its
+// onset strength plus the best predecessor score, penalised by how far the
+// inter-beat interval strays from the target period on a log scale.
+export function trackBeatFrames(envelope: Float64Array, frameRate: number, tempo: number): number[] {
+  const frameCount = envelope.length;
+  if (frameCount === 0) return [];
+
+  const period = (60 * frameRate) / tempo;
+
+  const localScore = new Float64Array(frameCount);
+  const radius = Math.max(1, Math.round(period / 16));
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let k = -radius * 2; k <= radius * 2; k++) {
+      const index = f + k;
+      if (index < 0 || index >= frameCount) continue;
+      sum += envelope[index] * Math.exp(-0.5 * (k / radius) * (k / radius));
+    }
+    localScore[f] = sum;
+  }
+
+  const cumulative = new Float64Array(frameCount);
+  const backlink = new Int32Array(frameCount).fill(-1);
+  const minStep = Math.max(1, Math.round(period / 2));
+  const maxStep = Math.round(period * 2);
+
+  for (let f = 0; f < frameCount; f++) {
+    let best = 0;
+    let bestFrom = -1;
+    for (let from = f - maxStep; from <= f - minStep; from++) {
+      if (from < 0) continue;
+      const deviation = Math.log((f - from) / period);
+      const score = cumulative[from] - BEAT_TIGHTNESS * deviation * deviation;
+      if (bestFrom < 0 || score > best) {
+        best = score;
+        bestFrom = from;
+      }
+    }
+    cumulative[f] = localScore[f] + (bestFrom >= 0 ? Math.max(0, best) : 0);
+    backlink[f] = bestFrom >= 0 && best > 0 ? bestFrom : -1;
+  }
+
+  // Start the backtrace from the strongest beat in the final period.
+  let last = Math.max(0, frameCount - Math.round(period));
+  for (let f = last + 1; f < frameCount; f++) {
+    if (cumulative[f] > cumulative[last]) last = f;
+  }
+
+  const beats: number[] = [];
+  for (let f = last; f >= 0; f = backlink[f]) {
+    beats.push(f);
+    if (backlink[f] < 0) break;
+  }
+  beats.reverse();
+
+  // Trim weak beats at the edges where the DP was coasting through silence.
+  let meanStrength = 0;
+  for (const beat of beats) meanStrength += localScore[beat];
+  meanStrength /= Math.max(1, beats.length);
+  const threshold = meanStrength * 0.1;
+  let first = 0;
+  let end = beats.length;
+  while (first < end && localScore[beats[first]] < threshold) first++;
+  while (end > first && localScore[beats[end - 1]] < threshold) end--;
+
+  return beats.slice(first, end);
+}
+
+// Chooses the bar phase whose beats carry the most onset energy.
+export function findDownbeats(beats: number[], strengths: number[], beatsPerBar: number): number[] {
+  if (beats.length === 0 || beatsPerBar < 1) return [];
+
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+  for (let phase = 0; phase < beatsPerBar; phase++) {
+    let score = 0;
+    let count = 0;
+    for (let i = phase; i < beats.length; i += beatsPerBar) {
+      score += strengths[i];
+      count++;
+    }
+    const mean = count > 0 ? score / count : 0;
+    if (mean > bestScore) {
+      bestScore = mean;
+      bestPhase = phase;
+    }
+  }
+
+  return beats.filter((_, i) => i >= bestPhase && (i - bestPhase) % beatsPerBar === 0);
+}
+
+export function trackBeats(
+  data: Float32Array,
+  sampleRate: number,
+  options: BeatTrackingOptions = {}
+): BeatTrackingResult {
+  // Bass-band onsets make a better accent cue for the bar line than full-band flux.
+  return trackBeatsFromOnsets(
+    spectralFlux(data, sampleRate),
+    spectralFlux(data, sampleRate, { maxFrequency: 200 }),
+    options
+  );
+}
+
+// trackBeats on onset envelopes that are already computed: `onsets` over the
+// full band and `lowOnsets` below 200 Hz, on the same frames.
+export function trackBeatsFromOnsets(
+  onsets: OnsetEnvelope,
+  lowOnsets: OnsetEnvelope,
+  options: BeatTrackingOptions = {}
+): BeatTrackingResult {
+  let tempo = options.tempo ?? estimateTempo(computeTempogram(onsets));
+
+  const beatFrames = trackBeatFrames(onsets.envelope, onsets.frameRate, tempo);
+  const beats = beatFrames.map(f => f / onsets.frameRate);
+
+  // The tempogram only resolves whole onset frames of lag; the average spacing
+  // of the tracked beats is a finer estimate.
+  if (options.tempo === undefined && beats.length >= 4) {
+    tempo = Math.round((60 * (beats.length - 1)) / (beats[beats.length - 1] - beats[0]));
+  }
+
+  const strengths = beatFrames.map(f => lowOnsets.envelope[f] ?? 0);
+
+  if (options.detectMeter) {
+    const meter = detectMeter(strengths);
+    if (meter) {
+      const downbeats = beats.filter((_, i) => i >= meter.phase && (i - meter.phase) % meter.beatsPerBar === 0);
+      return { tempo, beats, downbeats, onsets: pickOnsets(onsets), timeSignature: meter.timeSignature };
+    }
+  }
+
+  const downbeats = findDownbeats(beats, strengths, options.beatsPerBar ?? 4);
+  return { tempo, beats, downbeats, onsets: pickOnsets(onsets) };
+}
+
+export function detectTempo(data: Float32Array, sampleRate: number): number {
+  return estimateTempo(computeTempogram(spectralFlux(data, sampleRate)));
+}
+
+export function createBeatGrid(duration: number, tempo: number, offset: number = 0): number[] {
+  const beatDuration = 60 / tempo;
+  const beats: number[] = [];
+  for (let time = offset; time < duration; time += beatDuration) {
+    beats.push(time);
+  }
+  return beats;
+}
@@ -0,0 +1,84 @@
+import { hannWindow, magnitudeSpectrum } from "./fft";
+import { A4_FREQUENCY, frequencyToPitch } from "./notes";
+
+const FRAME_SIZE = 4096;
+// Partials below this are too few bins apart to place within a few cents.
+const MIN_FREQUENCY = 250;
+const MAX_FREQUENCY = 4000;
+// Spectral peaks weaker than this share of their frame's strongest are noise.
+const PEAK_RATIO = 0.05;
+// Half-width, in cents, of the window the histogram is smoothed with and of
+// the neighbourhood the final offset is averaged over.
+const SMOOTHING_CENTS = 5;
+const REFINE_CENTS = 15;
+
+// Cents offset, in [-50, 50), of the deviation `cents` nearest to `center`
+// once wrapped around the semitone.
+function wrapCents(cents: number, center: number = 0): number {
+  return cents - 100 * Math.round((cents - center) / 100);
+}
+
+// Global tuning of a recording, in cents from A4 = 440 Hz. Every spectral
+// peak votes, weighted by magnitude, for its distance to the nearest
+// equal-tempered semitone; the busiest cent of that histogram, refined by
+// averaging the votes around it, is the offset.
+export function estimateTuning(data: Float32Array, sampleRate: number): number {
+  const window = hannWindow(FRAME_SIZE);
+  const binFrequency = sampleRate / FRAME_SIZE;
+  const minBin = Math.max(2, Math.ceil(MIN_FREQUENCY / binFrequency));
+  const maxBin = Math.min(FRAME_SIZE / 2 - 2, Math.floor(MAX_FREQUENCY / binFrequency));
+  const votes: { cents: number; weight: number }[] = [];
+
+  for (let i = 0; i + FRAME_SIZE <= data.length; i += FRAME_SIZE) {
+    const magnitudes = magnitudeSpectrum(data.subarray(i, i + FRAME_SIZE), window);
+    let strongest = 0;
+    for (let k = minBin; k <= maxBin; k++) strongest = Math.max(strongest, magnitudes[k]);
+    if (strongest === 0) continue;
+
+    for (let k = minBin; k <= maxBin; k++) {
+      const magnitude = magnitudes[k];
+      if (magnitude < strongest * PEAK_RATIO || magnitude <= magnitudes[k - 1] || magnitude < magnitudes[k + 1]) {
+        continue;
+      }
+      // Parabolic interpolation on log magnitude places the partial between bins.
+      const a = Math.log(magnitudes[k - 1] + 1e-12);
+      const b = Math.log(magnitude);
+      const c = Math.log(magnitudes[k + 1] + 1e-12);
+      const denominator = a - 2 * b + c;
+      const offset = denominator < 0 ? (0.5 * (a - c)) / denominator : 0;
+      const pitch = frequencyToPitch((k + offset) * binFrequency);
+      votes.push({ cents: wrapCents((pitch - Math.round(pitch)) * 100), weight: magnitude });
+    }
+  }
+  if (votes.length === 0) return 0;
+
+  const histogram = new Float64Array(100);
+  for (const { cents, weight } of votes) histogram[(Math.floor(cents) + 150) % 100] += weight;
+
+  let peak = 0;
+  let peakWeight = -1;
+  for (let bin = 0; bin < 100; bin++) {
+    let weight = 0;
+    for (let d = -SMOOTHING_CENTS; d <= SMOOTHING_CENTS; d++) weight += histogram[(bin + d + 100) % 100];
+    if (weight > peakWeight) {
+      peakWeight = weight;
+      peak = bin;
+    }
+  }
+
+  const center = wrapCents(peak - 50 + 0.5);
+  let total = 0;
+  let weight = 0;
+  for (const vote of votes) {
+    const cents = wrapCents(vote.cents, center);
+    if (Math.abs(cents - center) > REFINE_CENTS) continue;
+    total += cents * vote.weight;
+    weight += vote.weight;
+  }
+  return wrapCents(weight > 0 ? total / weight : center);
+}
+
+// Frequency of A4 for a tuning offset in cents.
+export function referencePitch(cents: number): number {
+  return A4_FREQUENCY * Math.pow(2, cents / 1200);
+}
@@ -0,0 +1,16 @@
+export function extractWaveformData(data: Float32Array, samples: number = 200): number[] {
+  const blockSize = Math.max(1, Math.floor(data.length / samples));
+  const filteredData: number[] = [];
+
+  for (let i = 0; i < samples; i++) {
+    const blockStart = blockSize * i;
+    let sum = 0;
+    for (let j = 0; j < blockSize && blockStart + j < data.length; j++) {
+      sum += Math.abs(data[blockStart + j]);
+    }
+    filteredData.push(sum / blockSize);
+  }
+
+  const maxVal = Math.max(...filteredData);
+  return maxVal > 0 ? filteredData.map(val => val / maxVal) : filteredData;
+}
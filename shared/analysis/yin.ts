@@ -0,0 +1,334 @@
+import { fft, nextPowerOfTwo } from "./fft";
+import { MAX_PITCH_FREQUENCY, MIN_PITCH_FREQUENCY, type PitchFrame } from "./pitch";
+
+export interface PitchTrackOptions {
+  frameSize?: number;
+  hopSize?: number;
+  minFrequency?: number;
+  maxFrequency?: number;
+}
+
+const YIN_THRESHOLD = 0.1;
+const PYIN_THRESHOLD_COUNT = 100;
+const PYIN_BETA_PARAMS: [number, number] = [2, 18];
+const PYIN_NO_TROUGH_PROB = 0.01;
+const PYIN_BINS_PER_SEMITONE = 3;
+const PYIN_SWITCH_PROB = 0.01;
+const PYIN_MAX_TRANSITION_RATE = 35.92;
+
+export function defaultYinFrameSize(sampleRate: number, minFrequency: number = MIN_PITCH_FREQUENCY): number {
+  return nextPowerOfTwo(2 * Math.ceil(sampleRate / minFrequency));
+}
+
+// Cumulative mean normalized difference d'(tau) for tau in [0, frame.length / 2),
+// with the autocorrelation term computed through the FFT.
+export function cumulativeMeanNormalizedDifference(frame: ArrayLike<number>): Float64Array {
+  const windowSize = Math.floor(frame.length / 2);
+  const fftSize = nextPowerOfTwo(frame.length + windowSize);
+
+  const aRe = new Float64Array(fftSize);
+  const aIm = new Float64Array(fftSize);
+  const xRe = new Float64Array(fftSize);
+  const xIm = new Float64Array(fftSize);
+  for (let i = 0; i < frame.length; i++) {
+    xRe[i] = frame[i];
+    if (i < windowSize) aRe[i] = frame[i];
+  }
+  fft(aRe, aIm);
+  fft(xRe, xIm);
+  for (let k = 0; k < fftSize; k++) {
+    const re = aRe[k] * xRe[k] + aIm[k] * xIm[k];
+    const im = aRe[k] * xIm[k] - aIm[k] * xRe[k];
+    xRe[k] = re;
+    xIm[k] = im;
+  }
+  fft(xRe, xIm, true);
+
+  const energy = new Float64Array(frame.length + 1);
+  for (let i = 0; i < frame.length; i++) {
+    energy[i + 1] = energy[i] + frame[i] * frame[i];
+  }
+
+  const cmnd = new Float64Array(windowSize);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau < windowSize; tau++) {
+    const difference = Math.max(0,
+      energy[windowSize] + (energy[tau + windowSize] - energy[tau]) - 2 * xRe[tau]
+    );
+    runningSum += difference;
+    cmnd[tau] = runningSum > 0 ? (difference * tau) / runningSum : 1;
+  }
+  return cmnd;
+}
+
+function parabolicInterpolation(values: Float64Array, index: number): number {
+  if (index <= 0 || index >= values.length - 1) return index;
+  const left = values[index - 1];
+  const center = values[index];
+  const right = values[index + 1];
+  const denominator = left - 2 * center + right;
+  if (denominator === 0) return index;
+  return index + (left - right) / (2 * denominator);
+}
+
+function frameRms(data: Float32Array, start: number, size: number): number {
+  let sum = 0;
+  for (let i = start; i < start + size; i++) {
+    sum += data[i] * data[i];
+  }
+  return Math.sqrt(sum / size);
+}
+
+function resolveOptions(sampleRate: number, options: PitchTrackOptions) {
+  const minFrequency = options.minFrequency ?? MIN_PITCH_FREQUENCY;
+  const maxFrequency = options.maxFrequency ?? MAX_PITCH_FREQUENCY;
+  const frameSize = options.frameSize ?? defaultYinFrameSize(sampleRate, minFrequency);
+  const hopSize = options.hopSize ?? frameSize / 4;
+  const minPeriod = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const maxPeriod = Math.min(Math.floor(frameSize / 2) - 2, Math.ceil(sampleRate / minFrequency));
+  return { minFrequency, maxFrequency, frameSize, hopSize, minPeriod, maxPeriod };
+}
+
+export function yinPitch(
+  frame: ArrayLike<number>,
+  sampleRate: number,
+  minPeriod: number,
+  maxPeriod: number
+): { frequency: number; probability: number } {
+  const cmnd = cumulativeMeanNormalizedDifference(frame);
+
+  let tau = -1;
+  for (let t = minPeriod; t <= maxPeriod; t++) {
+    if (cmnd[t] < YIN_THRESHOLD) {
+      while (t + 1 <= maxPeriod && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+
+  if (tau < 0) {
+    let best = minPeriod;
+    for (let t = minPeriod; t <= maxPeriod; t++) {
+      if (cmnd[t] < cmnd[best]) best = t;
+    }
+    tau = best;
+  }
+
+  const refined = parabolicInterpolation(cmnd, tau);
+  return {
+    frequency: refined > 0 ? sampleRate / refined : 0,
+    probability: Math.max(0, Math.min(1, 1 - cmnd[tau])),
+  };
+}
+
+export function trackPitchYin(
+  data: Float32Array,
+  sampleRate: number,
+  options: PitchTrackOptions = {}
+): PitchFrame[] {
+  const { frameSize, hopSize, minPeriod, maxPeriod } = resolveOptions(sampleRate, options);
+  const frames: PitchFrame[] = [];
+
+  for (let i = 0; i + frameSize <= data.length; i += hopSize) {
+    const frame = data.subarray(i, i + frameSize);
+    const rms = frameRms(data, i, frameSize);
+    const { frequency, probability } = rms > 0
+      ? yinPitch(frame, sampleRate, minPeriod, maxPeriod)
+      : { frequency: 0, probability: 0 };
+    frames.push({ time: i / sampleRate, frequency, probability, rms });
+  }
+
+  return frames;
+}
+
+function betaDistribution(count: number, [alpha, beta]: [number, number]): Float64Array {
+  const weights = new Float64Array(count);
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const x = (i + 0.5) / count;
+    weights[i] = Math.pow(x, alpha - 1) * Math.pow(1 - x, beta - 1);
+    total += weights[i];
+  }
+  for (let i = 0; i < count; i++) {
+    weights[i] /= total;
+  }
+  return weights;
+}
+
+// Probabilistic YIN (Mauch & Dixon, 2014): every threshold drawn from a beta
+// prior votes for the first trough below it, then a Viterbi pass over
+// (pitch bin x voiced/unvoiced) states picks the smoothest path.
+export function trackPitchPyin(
+  data: Float32Array,
+  sampleRate: number,
+  options: PitchTrackOptions = {}
+): PitchFrame[] {
+  const { minFrequency, maxFrequency, frameSize, hopSize, minPeriod, maxPeriod } =
+    resolveOptions(sampleRate, options);
+
+  const thresholds = new Float64Array(PYIN_THRESHOLD_COUNT);
+  for (let i = 0; i < PYIN_THRESHOLD_COUNT; i++) {
+    thresholds[i] = (i + 1) / PYIN_THRESHOLD_COUNT;
+  }
+  const thresholdWeights = betaDistribution(PYIN_THRESHOLD_COUNT, PYIN_BETA_PARAMS);
+
+  const minMidi = 69 + 12 * Math.log2(minFrequency / 440);
+  const binCount = Math.ceil(12 * Math.log2(maxFrequency / minFrequency) * PYIN_BINS_PER_SEMITONE) + 1;
+  const binFrequency = (bin: number) => 440 * Math.pow(2, (minMidi + bin / PYIN_BINS_PER_SEMITONE - 69) / 12);
+
+  const observations: Float64Array[] = [];
+  // Exact frequency of the likeliest trough in each bin, so the output isn't
+  // rounded to the bin grid.
+  const candidateFrequencies: Float64Array[] = [];
+  const voicedProbabilities: number[] = [];
+  const rmsValues: number[] = [];
+  const times: number[] = [];
+
+  for (let i = 0; i + frameSize <= data.length; i += hopSize) {
+    const rms = frameRms(data, i, frameSize);
+    const observation = new Float64Array(binCount);
+    const candidates = new Float64Array(binCount);
+    const candidateProbabilities = new Float64Array(binCount);
+    let voicedProbability = 0;
+
+    if (rms > 0) {
+      const cmnd = cumulativeMeanNormalizedDifference(data.subarray(i, i + frameSize));
+
+      const troughs: number[] = [];
+      for (let t = minPeriod; t <= maxPeriod; t++) {
+        const isMinimum = cmnd[t] <= cmnd[t - 1] && (t + 1 >= cmnd.length || cmnd[t] <= cmnd[t + 1]);
+        if (isMinimum) troughs.push(t);
+      }
+
+      if (troughs.length > 0) {
+        let globalMin = troughs[0];
+        for (const t of troughs) {
+          if (cmnd[t] < cmnd[globalMin]) globalMin = t;
+        }
+
+        const troughProbabilities = new Map<number, number>();
+        for (let k = 0; k < PYIN_THRESHOLD_COUNT; k++) {
+          const first = troughs.find(t => cmnd[t] < thresholds[k]);
+          const tau = first ?? globalMin;
+          const weight = thresholdWeights[k] * (first === undefined ? PYIN_NO_TROUGH_PROB : 1);
+          troughProbabilities.set(tau, (troughProbabilities.get(tau) ?? 0) + weight);
+        }
+
+        troughProbabilities.forEach((probability, tau) => {
+          const frequency = sampleRate / parabolicInterpolation(cmnd, tau);
+          const bin = Math.round((69 + 12 * Math.log2(frequency / 440) - minMidi) * PYIN_BINS_PER_SEMITONE);
+          if (bin >= 0 && bin < binCount) {
+            observation[bin] += probability;
+            voicedProbability += probability;
+            if (probability > candidateProbabilities[bin]) {
+              candidateProbabilities[bin] = probability;
+              candidates[bin] = frequency;
+            }
+          }
+        });
+      }
+    }
+
+    voicedProbability = Math.min(1, voicedProbability);
+    observations.push(observation);
+    candidateFrequencies.push(candidates);
+    voicedProbabilities.push(voicedProbability);
+    rmsValues.push(rms);
+    times.push(i / sampleRate);
+  }
+
+  const path = viterbiPitchPath(
+    observations,
+    voicedProbabilities,
+    binCount,
+    Math.max(1, Math.round((PYIN_MAX_TRANSITION_RATE * 12 * PYIN_BINS_PER_SEMITONE * hopSize) / sampleRate))
+  );
+
+  return path.map((state, index) => ({
+    time: times[index],
+    frequency: state.voiced ? candidateFrequencies[index][state.bin] || binFrequency(state.bin) : 0,
+    probability: state.voiced ? voicedProbabilities[index] : 0,
+    rms: rmsValues[index],
+  }));
+}
+
+function viterbiPitchPath(
+  observations: Float64Array[],
+  voicedProbabilities: number[],
+  binCount: number,
+  maxStep: number
+): { bin: number; voiced: boolean }[] {
+  const frameCount = observations.length;
+  if (frameCount === 0) return [];
+
+  const stateCount = binCount * 2;
+  const floor = 1e-12;
+
+  const stepLog = new Float64Array(maxStep + 1);
+  let stepTotal = 0;
+  for (let d = 0; d <= maxStep; d++) {
+    stepTotal += (d === 0 ? 1 : 2) * (maxStep + 1 - d);
+  }
+  for (let d = 0; d <= maxStep; d++) {
+    stepLog[d] = Math.log((maxStep + 1 - d) / stepTotal);
+  }
+  const stayLog = Math.log(1 - PYIN_SWITCH_PROB);
+  const switchLog = Math.log(PYIN_SWITCH_PROB);
+
+  const emissionLog = (frame: number, state: number) => {
+    const bin = state % binCount;
+    const voiced = state < binCount;
+    const probability = voiced
+      ? observations[frame][bin]
+      : (1 - voicedProbabilities[frame]) / binCount;
+    return Math.log(probability + floor);
+  };
+
+  let scores = new Float64Array(stateCount);
+  for (let s = 0; s < stateCount; s++) {
+    scores[s] = -Math.log(stateCount) + emissionLog(0, s);
+  }
+  const backPointers: Int32Array[] = [new Int32Array(stateCount)];
+
+  for (let frame = 1; frame < frameCount; frame++) {
+    const next = new Float64Array(stateCount).fill(-Infinity);
+    const pointers = new Int32Array(stateCount);
+
+    for (let s = 0; s < stateCount; s++) {
+      const bin = s % binCount;
+      const voiced = s < binCount;
+      for (let from = Math.max(0, bin - maxStep); from <= Math.min(binCount - 1, bin + maxStep); from++) {
+        const step = stepLog[Math.abs(bin - from)];
+        const sameVoicing = (voiced ? 0 : binCount) + from;
+        const otherVoicing = (voiced ? binCount : 0) + from;
+        const stay = scores[sameVoicing] + step + stayLog;
+        const change = scores[otherVoicing] + step + switchLog;
+        if (stay > next[s]) {
+          next[s] = stay;
+          pointers[s] = sameVoicing;
+        }
+        if (change > next[s]) {
+          next[s] = change;
+          pointers[s] = otherVoicing;
+        }
+      }
+      next[s] += emissionLog(frame, s);
+    }
+
+    scores = next;
+    backPointers.push(pointers);
+  }
+
+  let state = 0;
+  for (let s = 1; s < stateCount; s++) {
+    if (scores[s] > scores[state]) state = s;
+  }
+
+  const path: { bin: number; voiced: boolean }[] = new Array(frameCount);
+  for (let frame = frameCount - 1; frame >= 0; frame--) {
+    path[frame] = { bin: state % binCount, voiced: state < binCount };
+    state = backPointers[frame][state];
+  }
+  return path;
+}
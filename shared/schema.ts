@@ -1,4 +1,4 @@
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { integer, jsonb, pgTable, real, text, timestamp, varchar } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
@@ -9,19 +9,104 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3).max(32),
+  password: (schema) => schema.min(8).max(128),
+}).pick({
   username: true,
   password: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API exposes about a user; the password hash never leaves the server.
+export type PublicUser = Omit<User, "password">;
+
+export const projects = pgTable("projects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One saved transcription: the analysis output plus any NoteEditor edits and
+// the params it was produced with. Strudel code is regenerated on load.
+export const analyses = pgTable("analyses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  melody: jsonb("melody").$type<Note[]>().notNull(),
+  chords: jsonb("chords").$type<Chord[]>().notNull(),
+  bass: jsonb("bass").$type<Note[]>(),
+  drums: jsonb("drums").$type<DrumHit[]>(),
+  params: jsonb("params").$type<AnalysisParams>().notNull(),
+  detectedKey: text("detected_key"),
+  estimatedTempo: real("estimated_tempo"),
+  // Meter the analysis used, detected or given; rows saved before meter
+  // detection fall back to params.timeSignature.
+  timeSignature: text("time_signature"),
+  groove: jsonb("groove").$type<Groove>(),
+  referencePitch: real("reference_pitch"),
+  keySegments: jsonb("key_segments").$type<KeySegment[]>(),
+  keyCandidates: jsonb("key_candidates").$type<KeyCandidate[]>(),
+  channel: text("channel"),
+  channelLayers: jsonb("channel_layers").$type<ChannelLayer[]>(),
+  region: jsonb("region").$type<Region>(),
+  duration: real("duration").notNull(),
+  sampleRate: integer("sample_rate").notNull(),
+  beats: jsonb("beats").$type<number[]>().notNull(),
+  downbeats: jsonb("downbeats").$type<number[]>(),
+  waveformData: jsonb("waveform_data").$type<number[]>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Read-only snapshot behind a /s/:slug link. Independent of the analysis it was
+// taken from, so later edits or deletes don't change what was shared.
+export const shares = pgTable("shares", {
+  slug: varchar("slug").primaryKey(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  title: text("title").notNull(),
+  melody: jsonb("melody").$type<Note[]>().notNull(),
+  chords: jsonb("chords").$type<Chord[]>().notNull(),
+  bass: jsonb("bass").$type<Note[]>(),
+  drums: jsonb("drums").$type<DrumHit[]>(),
+  detectedKey: text("detected_key"),
+  keySegments: jsonb("key_segments").$type<KeySegment[]>(),
+  tempo: real("tempo").notNull(),
+  timeSignature: text("time_signature").notNull(),
+  // Swing ratio the code was written with; null when played straight.
+  swing: real("swing"),
+  codeOptions: jsonb("code_options").$type<ShareCodeOptions>(),
+  duration: real("duration").notNull(),
+  sampleRate: integer("sample_rate").notNull(),
+  beats: jsonb("beats").$type<number[]>().notNull(),
+  downbeats: jsonb("downbeats").$type<number[]>(),
+  strudelCode: jsonb("strudel_code").$type<StrudelCode>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects).pick({
+  name: true,
+});
+
+export type InsertProject = z.infer<typeof insertProjectSchema> & { userId: string };
+export type UpdateProject = Partial<z.infer<typeof insertProjectSchema>>;
+export type Project = typeof projects.$inferSelect;
+export type SavedAnalysis = typeof analyses.$inferSelect;
 
 export const noteSchema = z.object({
   note: z.string(),
   time: z.number(),
   duration: z.number().optional(),
   velocity: z.number().optional(),
+  // Deviation from the named pitch in the detected tuning, -50 to 50.
+  cents: z.number().min(-50).max(50).optional(),
 });
 
 export const chordSchema = z.object({
@@ -29,22 +114,103 @@ export const chordSchema = z.object({
   name: z.string(),
   time: z.number(),
   duration: z.number().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+// Strudel's default sample names: kick, snare and closed hi-hat.
+export const drumInstrumentSchema = z.enum(["bd", "sd", "hh"]);
+
+export const drumHitSchema = z.object({
+  instrument: drumInstrumentSchema,
+  time: z.number(),
+  velocity: z.number().min(0).max(1).optional(),
+});
+
+// Stretch of the song in one key; `key` is spelled like detectedKey.
+export const keySegmentSchema = z.object({
+  key: z.string(),
+  time: z.number(),
+  duration: z.number(),
+});
+
+// Stretch of the file, in seconds from its start, that is analyzed.
+export const regionSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().positive(),
+});
+
+// Notes transcribed before the note limit cut the melody and bass line down
+// to `limit` each.
+export const noteCountsSchema = z.object({
+  limit: z.number(),
+  melody: z.number(),
+  bass: z.number().optional(),
+});
+
+// Which audio channel, or mix of channels, is analyzed. "per-channel" runs
+// the analysis on every channel and keeps the others as extra layers.
+export const channelModeSchema = z.enum(["left", "right", "mid", "side", "per-channel"]);
+
+// Melody and bass transcribed from one further channel of a per-channel
+// analysis.
+export const channelLayerSchema = z.object({
+  channel: z.string(),
+  melody: z.array(noteSchema),
+  bass: z.array(noteSchema).optional(),
+});
+
+// Key ranked by how well its profile correlates with the song's chroma;
+// `score` is the Pearson correlation.
+export const keyCandidateSchema = z.object({
+  key: z.string(),
+  score: z.number(),
+});
+
+// Feel of the performance. `swing` is the long:short ratio of each pair of
+// eighths (1 straight, 2 triplet shuffle); `microtiming` is how far, in ms,
+// onsets on each sixteenth of the beat sit ahead (-) or behind (+) the swung
+// grid.
+export const grooveSchema = z.object({
+  swing: z.number().min(1),
+  microtiming: z.array(z.number()),
 });
 
 export const strudelCodeSchema = z.object({
   melody: z.string(),
   chords: z.string(),
+  bass: z.string(),
+  drums: z.string(),
   combined: z.string(),
 });
 
 export const analysisResultSchema = z.object({
   melody: z.array(noteSchema),
   chords: z.array(chordSchema),
+  bass: z.array(noteSchema).optional(),
+  drums: z.array(drumHitSchema).optional(),
   strudelCode: strudelCodeSchema,
   duration: z.number(),
   sampleRate: z.number(),
   detectedKey: z.string().optional(),
+  // Key over time when the song modulates; detectedKey is the longest of them.
+  keySegments: z.array(keySegmentSchema).optional(),
+  // Best-fitting keys, best first, to pick an alternative from.
+  keyCandidates: z.array(keyCandidateSchema).optional(),
   estimatedTempo: z.number().optional(),
+  timeSignature: z.string().optional(),
+  groove: grooveSchema.optional(),
+  // Frequency of A4 in Hz that notes were named against.
+  referencePitch: z.number().optional(),
+  // Channel the result was analyzed from: "left", "right", "mid", "side", or
+  // "mono" for a single-channel file.
+  channel: z.string().optional(),
+  channelLayers: z.array(channelLayerSchema).optional(),
+  // Part of the file that was analyzed. Every time in the result, and so the
+  // code and MIDI, counts from region.start.
+  region: regionSchema.optional(),
+  noteCounts: noteCountsSchema.optional(),
+  beats: z.array(z.number()),
+  downbeats: z.array(z.number()).optional(),
   waveformData: z.array(z.number()).optional(),
 });
 
@@ -54,11 +220,169 @@ export const processingStatusSchema = z.object({
   message: z.string(),
 });
 
+export const analysisParamsSchema = z.object({
+  autoDetectTempo: z.boolean().default(true),
+  targetTempo: z.number().min(40).max(240).default(120),
+  autoDetectKey: z.boolean().default(true),
+  targetKey: z.string().default("C"),
+  // Key profiles correlated with the chroma: Krumhansl-Kessler, Temperley or
+  // Albrecht-Shanahan.
+  keyProfile: z.enum(["krumhansl", "temperley", "albrecht"]).default("krumhansl"),
+  // Also considers the church modes (Dorian, Phrygian, ...).
+  detectModes: z.boolean().default(false),
+  // Picks the meter from beat accents; timeSignature is the fallback.
+  autoDetectTimeSignature: z.boolean().default(true),
+  timeSignature: z.string().default("4/4"),
+  minNoteDuration: z.number().min(0).default(50),
+  pitchSensitivity: z.number().min(0).max(100).default(70),
+  pitchMethod: z.enum(["autocorrelation", "yin", "pyin"]).default("pyin"),
+  // Multi-pitch estimation for piano and guitar: the melody may then hold
+  // overlapping notes. pitchMethod only applies to monophonic tracking.
+  polyphonic: z.boolean().default(false),
+  // Tracks the low register on its own for a separate bass line.
+  extractBass: z.boolean().default(true),
+  detectDrums: z.boolean().default(true),
+  channelMode: channelModeSchema.default("mid"),
+  // Analyzes only this part of the file.
+  region: regionSchema.optional(),
+  // Most notes kept in the melody and in the bass line; unset keeps 64, or
+  // 256 when polyphonic.
+  maxNotes: z.number().int().min(1).optional(),
+  quantizeNotes: z.boolean().default(true),
+  quantizeValue: z.string().default("1/16"),
+  // Quantizes onto the detected swing instead of straightening it, and plays
+  // the swing back with swingBy().
+  swingQuantize: z.boolean().default(true),
+  // "notes" writes absolute note names; "degrees" writes the melody as scale
+  // degrees of the detected key with n(...).scale(...).
+  notation: z.enum(["notes", "degrees"]).default("notes"),
+  // "symbols" writes chord("<Am F>").voicing() instead of stacked note names.
+  chordNotation: z.enum(["notes", "symbols"]).default("notes"),
+  // Strudel voicing dictionary for chord symbols; "ireal" is its default.
+  voicingDictionary: z.enum(["ireal", "lefthand", "triads", "guidetones"]).default("ireal"),
+  // Adds a bass line playing each chord's root.
+  chordBass: z.boolean().default(false),
+});
+
 export type Note = z.infer<typeof noteSchema>;
 export type Chord = z.infer<typeof chordSchema>;
+export type DrumInstrument = z.infer<typeof drumInstrumentSchema>;
+export type DrumHit = z.infer<typeof drumHitSchema>;
+export type Groove = z.infer<typeof grooveSchema>;
+export type KeySegment = z.infer<typeof keySegmentSchema>;
+export type KeyCandidate = z.infer<typeof keyCandidateSchema>;
+export type ChannelMode = z.infer<typeof channelModeSchema>;
+export type ChannelLayer = z.infer<typeof channelLayerSchema>;
+export type Region = z.infer<typeof regionSchema>;
+export type NoteCounts = z.infer<typeof noteCountsSchema>;
 export type StrudelCode = z.infer<typeof strudelCodeSchema>;
 export type AnalysisResult = z.infer<typeof analysisResultSchema>;
 export type ProcessingStatus = z.infer<typeof processingStatusSchema>;
+export type AnalysisParams = z.infer<typeof analysisParamsSchema>;
+export type PitchMethod = AnalysisParams["pitchMethod"];
+export type Notation = AnalysisParams["notation"];
+export type ChordNotation = AnalysisParams["chordNotation"];
+export type VoicingDictionary = AnalysisParams["voicingDictionary"];
+
+export const defaultAnalysisParams: AnalysisParams = analysisParamsSchema.parse({});
+
+export const analysisJobSchema = z.object({
+  id: z.string(),
+  state: z.enum(["queued", "running", "completed", "failed", "cancelled"]),
+  status: processingStatusSchema,
+  fileName: z.string().optional(),
+  result: analysisResultSchema.optional(),
+  error: z.object({ code: z.string(), message: z.string() }).optional(),
+  createdAt: z.string(),
+  finishedAt: z.string().optional(),
+  expiresAt: z.string().optional(),
+});
+
+export type AnalysisJob = z.infer<typeof analysisJobSchema>;
+export type AnalysisJobState = AnalysisJob["state"];
+
+export const insertAnalysisSchema = analysisResultSchema
+  .pick({
+    melody: true,
+    chords: true,
+    bass: true,
+    drums: true,
+    detectedKey: true,
+    keySegments: true,
+    keyCandidates: true,
+    channel: true,
+    channelLayers: true,
+    region: true,
+    estimatedTempo: true,
+    timeSignature: true,
+    groove: true,
+    referencePitch: true,
+    duration: true,
+    sampleRate: true,
+    beats: true,
+    downbeats: true,
+    waveformData: true,
+  })
+  .extend({
+    projectId: z.string(),
+    fileName: z.string().min(1),
+    params: analysisParamsSchema,
+  });
+
+export const updateAnalysisSchema = insertAnalysisSchema
+  .pick({
+    fileName: true,
+    melody: true,
+    chords: true,
+    bass: true,
+    drums: true,
+    params: true,
+    detectedKey: true,
+    keySegments: true,
+    estimatedTempo: true,
+  })
+  .partial();
+
+export type InsertAnalysis = z.infer<typeof insertAnalysisSchema>;
+export type UpdateAnalysis = z.infer<typeof updateAnalysisSchema>;
+
+// Code generation settings the author's code was written with, so the
+// shared code comes out the same.
+export const shareCodeOptionsSchema = analysisParamsSchema.pick({
+  quantizeValue: true,
+  polyphonic: true,
+  notation: true,
+  chordNotation: true,
+  voicingDictionary: true,
+  chordBass: true,
+}).partial();
+
+export type ShareCodeOptions = z.infer<typeof shareCodeOptionsSchema>;
+
+export const insertShareSchema = z.object({
+  title: z.string().min(1).max(200),
+  melody: z.array(noteSchema),
+  chords: z.array(chordSchema),
+  bass: z.array(noteSchema).optional(),
+  drums: z.array(drumHitSchema).optional(),
+  detectedKey: z.string().optional(),
+  keySegments: z.array(keySegmentSchema).optional(),
+  tempo: z.number().positive(),
+  timeSignature: z.string(),
+  swing: z.number().min(1).optional(),
+  codeOptions: shareCodeOptionsSchema.optional(),
+  duration: z.number(),
+  sampleRate: z.number(),
+  beats: z.array(z.number()),
+  downbeats: z.array(z.number()).optional(),
+});
+
+export type Share = typeof shares.$inferSelect;
+export type InsertShare = z.infer<typeof insertShareSchema> & {
+  slug: string;
+  userId: string | null;
+  strudelCode: StrudelCode;
+};
 
 export const uploadAudioSchema = z.object({
   file: z.instanceof(File),
@@ -0,0 +1,53 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { sineWav, startServer, upload, type TestServer } from "./server";
+
+describe("POST /api/analyze", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  const analyze = (body: FormData) => fetch(`${server.url}/api/analyze`, { method: "POST", body });
+
+  it("needs a file", async () => {
+    const res = await analyze(new FormData());
+    assert.equal(res.status, 400);
+    assert.equal((await res.json()).code, "MISSING_FILE");
+  });
+
+  it("rejects invalid params", async () => {
+    const malformed = await analyze(upload(sineWav(1), { params: "{not json" }));
+    assert.equal(malformed.status, 400);
+    assert.equal((await malformed.json()).code, "INVALID_PARAMS");
+
+    const outOfRange = await analyze(upload(sineWav(1), { targetTempo: "9000" }));
+    assert.equal(outOfRange.status, 400);
+    assert.equal((await outOfRange.json()).code, "INVALID_PARAMS");
+  });
+
+  it("rejects files that aren't audio", async () => {
+    const res = await analyze(upload(Buffer.from("not audio at all")));
+    assert.equal(res.status, 415);
+    assert.equal((await res.json()).code, "UNSUPPORTED_FORMAT");
+  });
+
+  it("reports audio that can't be decoded", async () => {
+    const wav = sineWav(1);
+    wav.writeUInt16LE(99, 20);
+    const res = await analyze(upload(wav));
+    assert.equal(res.status, 422);
+    assert.equal((await res.json()).code, "CORRUPT_AUDIO");
+  });
+
+  it("analyzes an upload and replies with the result", async () => {
+    const res = await analyze(upload(sineWav(2), { pitchMethod: "yin" }));
+    assert.equal(res.status, 200);
+    const result = await res.json();
+    assert.equal(result.duration, 2);
+    assert.equal(result.melody[0]?.note, "a4");
+    assert.equal(typeof result.strudelCode.combined, "string");
+  });
+});
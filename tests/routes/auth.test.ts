@@ -0,0 +1,51 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createClient, startServer, type TestServer } from "./server";
+
+const credentials = { username: "ada", password: "correct horse battery" };
+
+describe("auth routes", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  it("registers a user and signs them in", async () => {
+    const client = createClient(server.url);
+    const res = await client.request("POST", "/api/register", credentials);
+    assert.equal(res.status, 201);
+    const user = await res.json();
+    assert.equal(user.username, "ada");
+    assert.equal("password" in user, false);
+
+    const me = await client.request("GET", "/api/user");
+    assert.deepEqual(await me.json(), user);
+  });
+
+  it("refuses a taken username", async () => {
+    const res = await createClient(server.url).request("POST", "/api/register", credentials);
+    assert.equal(res.status, 409);
+    assert.equal((await res.json()).code, "USERNAME_TAKEN");
+  });
+
+  it("rejects a short password", async () => {
+    const res = await createClient(server.url).request("POST", "/api/register", { username: "bob", password: "short" });
+    assert.equal(res.status, 400);
+    assert.equal((await res.json()).code, "INVALID_REGISTRATION");
+  });
+
+  it("logs in and out", async () => {
+    const client = createClient(server.url);
+    const wrong = await client.request("POST", "/api/login", { ...credentials, password: "wrong password" });
+    assert.equal(wrong.status, 401);
+    assert.equal((await wrong.json()).code, "INVALID_LOGIN");
+
+    assert.equal((await client.request("POST", "/api/login", credentials)).status, 200);
+    assert.equal((await client.request("GET", "/api/user")).status, 200);
+
+    assert.equal((await client.request("POST", "/api/logout")).status, 204);
+    assert.equal((await client.request("GET", "/api/user")).status, 401);
+  });
+});
@@ -0,0 +1,82 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "timers/promises";
+import { WebSocket } from "ws";
+import { sineWav, startServer, upload, type TestServer } from "./server";
+
+describe("job routes", () => {
+  let server: TestServer;
+
+  before(async () => {
+    process.env.ANALYSIS_WORKERS = "1";
+    server = await startServer();
+  });
+  after(() => server.close());
+
+  const submit = (body: FormData) => fetch(`${server.url}/api/jobs`, { method: "POST", body });
+
+  // Polls a job until it leaves the queue and finishes running.
+  async function finished(id: string) {
+    for (let attempt = 0; ; attempt++) {
+      const job = await (await fetch(`${server.url}/api/jobs/${id}`)).json();
+      if ((job.state !== "queued" && job.state !== "running") || attempt === 300) return job;
+      await delay(100);
+    }
+  }
+
+  it("checks the upload before queueing it", async () => {
+    const missing = await submit(new FormData());
+    assert.equal(missing.status, 400);
+    assert.equal((await missing.json()).code, "MISSING_FILE");
+
+    const notAudio = await submit(upload(Buffer.from("not audio at all")));
+    assert.equal(notAudio.status, 415);
+    assert.equal((await notAudio.json()).code, "UNSUPPORTED_FORMAT");
+  });
+
+  it("runs a queued job to completion", async () => {
+    const res = await submit(upload(sineWav(2)));
+    assert.equal(res.status, 202);
+    const { id } = await res.json();
+    assert.equal(res.headers.get("location"), `/api/jobs/${id}`);
+
+    const job = await finished(id);
+    assert.equal(job.state, "completed");
+    assert.equal(job.result.melody[0]?.note, "a4");
+  });
+
+  it("pushes progress over the job socket until the job finishes", async () => {
+    const { id } = await (await submit(upload(sineWav(2)))).json();
+    const socket = new WebSocket(`${server.url.replace("http", "ws")}/api/jobs/${id}/ws`);
+    const states: string[] = [];
+    socket.on("message", data => states.push(JSON.parse(data.toString()).state));
+    await new Promise(resolve => socket.on("close", resolve));
+
+    assert.equal(states.at(-1), "completed");
+    assert.ok(states.length > 1);
+  });
+
+  it("fails a job whose audio can't be decoded", async () => {
+    const wav = sineWav(1);
+    wav.writeUInt16LE(99, 20);
+    const { id } = await (await submit(upload(wav))).json();
+
+    const job = await finished(id);
+    assert.equal(job.state, "failed");
+    assert.equal(job.error.code, "CORRUPT_AUDIO");
+  });
+
+  it("cancels a job", async () => {
+    const { id } = await (await submit(upload(sineWav(20)))).json();
+    const res = await fetch(`${server.url}/api/jobs/${id}`, { method: "DELETE" });
+    assert.equal((await res.json()).state, "cancelled");
+  });
+
+  it("reports unknown jobs", async () => {
+    for (const method of ["GET", "DELETE"]) {
+      const res = await fetch(`${server.url}/api/jobs/nope`, { method });
+      assert.equal(res.status, 404, method);
+      assert.equal((await res.json()).code, "JOB_NOT_FOUND");
+    }
+  });
+});
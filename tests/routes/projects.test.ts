@@ -0,0 +1,101 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { defaultAnalysisParams } from "@shared/schema";
+import { createClient, signedInClient, startServer, type Client, type TestServer } from "./server";
+
+const analysis = {
+  fileName: "riff.wav",
+  params: defaultAnalysisParams,
+  melody: [{ note: "c4", time: 0, duration: 0.5 }],
+  chords: [],
+  detectedKey: "C",
+  estimatedTempo: 120,
+  duration: 2,
+  sampleRate: 44100,
+  beats: [0, 0.5, 1, 1.5],
+};
+
+describe("project routes", () => {
+  let server: TestServer;
+  let owner: Client;
+
+  before(async () => {
+    server = await startServer();
+    owner = await signedInClient(server.url);
+  });
+  after(() => server.close());
+
+  it("needs a signed-in user", async () => {
+    const res = await createClient(server.url).request("GET", "/api/projects");
+    assert.equal(res.status, 401);
+    assert.equal((await res.json()).code, "UNAUTHENTICATED");
+  });
+
+  it("creates, lists, renames and deletes projects", async () => {
+    const created = await owner.request("POST", "/api/projects", { name: "Demo" });
+    assert.equal(created.status, 201);
+    const project = await created.json();
+
+    const list = await (await owner.request("GET", "/api/projects")).json();
+    assert.deepEqual(list.map((p: { id: string }) => p.id), [project.id]);
+
+    const renamed = await owner.request("PATCH", `/api/projects/${project.id}`, { name: "Renamed" });
+    assert.equal((await renamed.json()).name, "Renamed");
+
+    assert.equal((await owner.request("DELETE", `/api/projects/${project.id}`)).status, 204);
+    const gone = await owner.request("GET", `/api/projects/${project.id}`);
+    assert.equal(gone.status, 404);
+    assert.equal((await gone.json()).code, "PROJECT_NOT_FOUND");
+  });
+
+  it("rejects an invalid project", async () => {
+    const res = await owner.request("POST", "/api/projects", { name: 42 });
+    assert.equal(res.status, 400);
+    assert.equal((await res.json()).code, "INVALID_PROJECT");
+  });
+
+  it("saves, updates and deletes analyses inside a project", async () => {
+    const project = await (await owner.request("POST", "/api/projects", { name: "Songs" })).json();
+    const saved = await owner.request("POST", `/api/projects/${project.id}/analyses`, analysis);
+    assert.equal(saved.status, 201);
+    const { id } = await saved.json();
+
+    const detail = await (await owner.request("GET", `/api/projects/${project.id}`)).json();
+    assert.deepEqual(detail.analyses.map((a: { id: string }) => a.id), [id]);
+
+    const bass = [{ note: "a2", time: 0, duration: 1 }];
+    const updated = await (await owner.request("PATCH", `/api/analyses/${id}`, { detectedKey: "Am", bass })).json();
+    assert.equal(updated.detectedKey, "Am");
+    assert.deepEqual(updated.bass, bass);
+
+    assert.equal((await owner.request("DELETE", `/api/analyses/${id}`)).status, 204);
+    const gone = await owner.request("GET", `/api/analyses/${id}`);
+    assert.equal(gone.status, 404);
+    assert.equal((await gone.json()).code, "ANALYSIS_NOT_FOUND");
+  });
+
+  it("rejects an analysis without its notes", async () => {
+    const project = await (await owner.request("POST", "/api/projects", { name: "Broken" })).json();
+    const { melody: _melody, ...incomplete } = analysis;
+    const res = await owner.request("POST", `/api/projects/${project.id}/analyses`, incomplete);
+    assert.equal(res.status, 400);
+    assert.equal((await res.json()).code, "INVALID_ANALYSIS");
+  });
+
+  it("won't save an analysis into a missing project", async () => {
+    const res = await owner.request("POST", "/api/projects/nope/analyses", analysis);
+    assert.equal(res.status, 404);
+  });
+
+  it("hides other users' projects and analyses", async () => {
+    const project = await (await owner.request("POST", "/api/projects", { name: "Private" })).json();
+    const { id } = await (await owner.request("POST", `/api/projects/${project.id}/analyses`, analysis)).json();
+    const stranger = await signedInClient(server.url);
+
+    assert.equal((await stranger.request("GET", `/api/projects/${project.id}`)).status, 404);
+    assert.equal((await stranger.request("PATCH", `/api/projects/${project.id}`, { name: "Mine" })).status, 404);
+    assert.equal((await stranger.request("GET", `/api/analyses/${id}`)).status, 404);
+    assert.equal((await stranger.request("DELETE", `/api/analyses/${id}`)).status, 404);
+    assert.deepEqual(await (await stranger.request("GET", "/api/projects")).json(), []);
+  });
+});
@@ -0,0 +1,105 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import session from "express-session";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { sessionConfig, setupAuth } from "../../server/auth";
+import { registerRoutes } from "../../server/routes";
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+// The API as server/index.ts sets it up, on a free port and with in-memory
+// storage.
+export async function startServer(): Promise<TestServer> {
+  const app = express();
+  const httpServer = createServer(app);
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  app.use(session(sessionConfig()));
+  setupAuth(app);
+  await registerRoutes(httpServer, app);
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err.status || err.statusCode || 500).json({ message: err.message || "Internal Server Error" });
+  });
+
+  await new Promise<void>(resolve => httpServer.listen(0, "127.0.0.1", resolve));
+  const { port } = httpServer.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => {
+      httpServer.closeAllConnections();
+      httpServer.close(() => resolve());
+    }),
+  };
+}
+
+export interface Client {
+  request(method: string, path: string, body?: unknown): Promise<globalThis.Response>;
+}
+
+// Sends JSON requests and keeps the session cookie between them, like a
+// browser tab.
+export function createClient(url: string): Client {
+  let cookie: string | undefined;
+  return {
+    async request(method, path, body) {
+      const res = await fetch(url + path, {
+        method,
+        headers: {
+          ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+          ...(cookie ? { Cookie: cookie } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const [setCookie] = res.headers.getSetCookie();
+      if (setCookie) cookie = setCookie.split(";")[0];
+      return res;
+    },
+  };
+}
+
+let registered = 0;
+
+// A client signed in as a freshly registered user.
+export async function signedInClient(url: string): Promise<Client> {
+  const client = createClient(url);
+  const res = await client.request("POST", "/api/register", {
+    username: `user${++registered}`,
+    password: "correct horse battery",
+  });
+  if (res.status !== 201) throw new Error(`Registration failed with ${res.status}`);
+  return client;
+}
+
+// `seconds` of a 440 Hz sine as a mono 16-bit WAV file.
+export function sineWav(seconds: number, sampleRate = 16000): Buffer {
+  const frames = Math.round(seconds * sampleRate);
+  const wav = Buffer.alloc(44 + frames * 2);
+  wav.write("RIFF", 0);
+  wav.writeUInt32LE(36 + frames * 2, 4);
+  wav.write("WAVE", 8);
+  wav.write("fmt ", 12);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write("data", 36);
+  wav.writeUInt32LE(frames * 2, 40);
+  for (let i = 0; i < frames; i++) {
+    wav.writeInt16LE(Math.round(12000 * Math.sin((2 * Math.PI * 440 * i) / sampleRate)), 44 + i * 2);
+  }
+  return wav;
+}
+
+// A multipart upload of `file` with extra form fields.
+export function upload(file: Buffer, fields: Record<string, string> = {}): FormData {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  form.append("file", new Blob([file]), "tone.wav");
+  return form;
+}
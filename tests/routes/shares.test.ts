@@ -0,0 +1,86 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createClient, signedInClient, startServer, type Client, type TestServer } from "./server";
+
+const snapshot = {
+  title: "Riff",
+  melody: [
+    { note: "c4", time: 0, duration: 0.5 },
+    { note: "e4", time: 0.5, duration: 0.5 },
+  ],
+  chords: [],
+  detectedKey: "C",
+  keySegments: [{ key: "C", time: 0, duration: 2 }],
+  tempo: 120,
+  timeSignature: "4/4",
+  codeOptions: { notation: "degrees" },
+  duration: 2,
+  sampleRate: 44100,
+  beats: [0, 0.5, 1, 1.5],
+};
+
+describe("share routes", () => {
+  let server: TestServer;
+  let author: Client;
+
+  before(async () => {
+    server = await startServer();
+    author = await signedInClient(server.url);
+  });
+  after(() => server.close());
+
+  it("needs a signed-in user to share", async () => {
+    const res = await createClient(server.url).request("POST", "/api/shares", snapshot);
+    assert.equal(res.status, 401);
+  });
+
+  it("rejects an invalid snapshot", async () => {
+    const res = await author.request("POST", "/api/shares", { ...snapshot, tempo: -1 });
+    assert.equal(res.status, 400);
+    assert.equal((await res.json()).code, "INVALID_SHARE");
+  });
+
+  it("generates the code from the snapshot and its code options", async () => {
+    const res = await author.request("POST", "/api/shares", {
+      ...snapshot,
+      strudelCode: { melody: "", chords: "", bass: "", drums: "", combined: "sound('evil')" },
+    });
+    assert.equal(res.status, 201);
+    const share = await res.json();
+    assert.match(share.slug, /^[\w-]{22}$/);
+    assert.match(share.strudelCode.melody, /\.scale\("C\d:major"\)/);
+    assert.doesNotMatch(share.strudelCode.combined, /evil/);
+  });
+
+  it("shows a snapshot to anyone with the link, without its owner", async () => {
+    const { slug } = await (await author.request("POST", "/api/shares", snapshot)).json();
+    const res = await createClient(server.url).request("GET", `/api/shares/${slug}`);
+    assert.equal(res.status, 200);
+    const share = await res.json();
+    assert.equal(share.title, "Riff");
+    assert.deepEqual(share.keySegments, snapshot.keySegments);
+    assert.equal("userId" in share, false);
+  });
+
+  it("reports unknown slugs", async () => {
+    const res = await createClient(server.url).request("GET", "/api/shares/nope");
+    assert.equal(res.status, 404);
+    assert.equal((await res.json()).code, "SHARE_NOT_FOUND");
+  });
+
+  it("forks a snapshot into a project of the signed-in user", async () => {
+    const { slug } = await (await author.request("POST", "/api/shares", snapshot)).json();
+    const reader = await signedInClient(server.url);
+
+    const res = await reader.request("POST", `/api/shares/${slug}/fork`);
+    assert.equal(res.status, 201);
+    const analysis = await res.json();
+    assert.deepEqual(analysis.melody, snapshot.melody);
+    assert.deepEqual(analysis.keySegments, snapshot.keySegments);
+    assert.equal(analysis.params.notation, "degrees");
+    assert.equal(analysis.params.targetKey, "C");
+
+    const projects = await (await reader.request("GET", "/api/projects")).json();
+    assert.deepEqual(projects.map((p: { id: string }) => p.id), [analysis.projectId]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { openAudioStream, readWaveform } from "@/lib/audio-decoder";
+
+const SAMPLE_RATE = 8000;
+
+// A 16-bit stereo WAV file: a tone in the left channel that is silent for the
+// first `quietSeconds`, and silence in the right.
+function stereoWav(seconds: number, quietSeconds: number): File {
+  const frames = seconds * SAMPLE_RATE;
+  const wav = Buffer.alloc(44 + frames * 4);
+  wav.write("RIFF", 0);
+  wav.writeUInt32LE(36 + frames * 4, 4);
+  wav.write("WAVE", 8);
+  wav.write("fmt ", 12);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(2, 22);
+  wav.writeUInt32LE(SAMPLE_RATE, 24);
+  wav.writeUInt32LE(SAMPLE_RATE * 4, 28);
+  wav.writeUInt16LE(4, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write("data", 36);
+  wav.writeUInt32LE(frames * 4, 40);
+  for (let i = quietSeconds * SAMPLE_RATE; i < frames; i++) {
+    wav.writeInt16LE(Math.round(12000 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE)), 44 + i * 4);
+  }
+  return new File([wav], "tone.wav");
+}
+
+describe("openAudioStream", () => {
+  it("reads a region of a WAV file", async () => {
+    const stream = await openAudioStream(stereoWav(4, 2));
+    assert.ok(stream);
+    assert.equal(stream.duration, 4);
+    const [left, right] = await stream.read({ start: 1, end: 3 });
+    assert.equal(left.length, 2 * SAMPLE_RATE);
+    assert.equal(right.every(sample => sample === 0), true);
+    assert.equal(left.slice(0, SAMPLE_RATE).every(sample => sample === 0), true);
+  });
+
+  it("leaves other formats to the browser", async () => {
+    assert.equal(await openAudioStream(new File([Buffer.from("ID3 not a wav")], "song.mp3")), null);
+  });
+});
+
+describe("readWaveform", () => {
+  it("reads the levels of the chosen channel block by block", async () => {
+    const file = stereoWav(12, 6);
+    const left = await readWaveform(file, "left", 12);
+    assert.equal(left.duration, 12);
+    assert.deepEqual(left.peaks.map(Math.round), [0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1]);
+    const right = await readWaveform(file, "right", 12);
+    assert.deepEqual(right.peaks, new Array(12).fill(0));
+  });
+});
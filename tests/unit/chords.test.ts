@@ -0,0 +1,16 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { toStrudelChordSymbol } from "@shared/analysis/chords";
+
+describe("toStrudelChordSymbol", () => {
+  it("uses symbols the voicing dictionaries have voicings for", () => {
+    assert.deepEqual(
+      ["C", "Am", "G7", "Fmaj7", "Dm7", "Bdim", "Caug", "Dsus2", "Esus4", "Cadd9"].map(toStrudelChordSymbol),
+      ["C", "Am", "G7", "F^7", "Dm7", "Bo", "Caug", "D2", "Esus", "Cadd9"]
+    );
+  });
+
+  it("passes unknown types through", () => {
+    assert.equal(toStrudelChordSymbol("C7b9"), "C7b9");
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { midiToDegree, scaleName, scaleOctave } from "@shared/analysis/degrees";
+
+describe("scaleName", () => {
+  it("anchors the scale at the tonic in the given octave", () => {
+    assert.equal(scaleName("Am", 3), "A3:minor");
+    assert.equal(scaleName("C", 4), "C4:major");
+    assert.equal(scaleName("D dorian", 4), "D4:dorian");
+  });
+});
+
+describe("scaleOctave", () => {
+  it("puts the tonic just below the middle of the melody", () => {
+    assert.equal(scaleOctave("C", [60, 64, 67, 72]), 4);
+    assert.equal(scaleOctave("Am", [57, 60, 64]), 3);
+  });
+});
+
+describe("midiToDegree", () => {
+  it("numbers scale tones from the tonic, across octaves", () => {
+    assert.deepEqual([60, 62, 64, 72, 59, 48].map(midi => midiToDegree(midi, "C", 60)), ["0", "1", "2", "7", "-1", "-7"]);
+  });
+
+  it("spells out-of-scale notes in major with flats, apart from the raised fourth", () => {
+    assert.deepEqual([61, 63, 66, 68, 70].map(midi => midiToDegree(midi, "C", 60)), ["1b", "2b", "3#", "5b", "6b"]);
+  });
+
+  it("spells the raised sixth and seventh in minor with sharps", () => {
+    assert.equal(midiToDegree(66, "Am", 57), "5#");
+    assert.equal(midiToDegree(68, "Am", 57), "6#");
+    assert.equal(midiToDegree(58, "Am", 57), "1b");
+  });
+
+  it("lowers the degree above in the other modes", () => {
+    assert.equal(midiToDegree(63, "D dorian", 62), "1b");
+    assert.equal(midiToDegree(61, "D dorian", 62), "0b");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { quantizeDrumHits } from "@shared/analysis/drums";
+import type { DrumHit } from "@shared/schema";
+
+// Beats at 120 BPM, half a second apart.
+const beats = Array.from({ length: 9 }, (_, i) => i * 0.5);
+
+describe("quantizeDrumHits", () => {
+  it("snaps hits to the nearest step", () => {
+    const hits: DrumHit[] = [
+      { instrument: "bd", time: 0.02 },
+      { instrument: "hh", time: 0.26 },
+      { instrument: "sd", time: 0.49 },
+    ];
+    assert.deepEqual(quantizeDrumHits(hits, beats, "1/8").map(hit => hit.time), [0, 0.25, 0.5]);
+  });
+
+  it("merges hits on one drum that land on the same step, keeping the loudest", () => {
+    const hits: DrumHit[] = [
+      { instrument: "sd", time: 0.98, velocity: 0.4 },
+      { instrument: "sd", time: 1.01, velocity: 0.9 },
+      { instrument: "bd", time: 1.0, velocity: 0.5 },
+    ];
+    assert.deepEqual(
+      quantizeDrumHits(hits, beats, "1/16").sort((a, b) => a.instrument.localeCompare(b.instrument)),
+      [
+        { instrument: "bd", time: 1, velocity: 0.5 },
+        { instrument: "sd", time: 1, velocity: 0.9 },
+      ]
+    );
+  });
+
+  it("places off-beats on the swung grid", () => {
+    // 2:1 swing puts the off-beat eighth two thirds into the beat.
+    const [hit] = quantizeDrumHits([{ instrument: "hh", time: 0.33 }], beats, "1/8", 2);
+    assert.ok(Math.abs(hit.time - 1 / 3) < 1e-9);
+  });
+
+  it("leaves hits alone without a beat grid", () => {
+    const hits: DrumHit[] = [{ instrument: "bd", time: 0.13 }];
+    assert.deepEqual(quantizeDrumHits(hits, [0.5], "1/8"), hits);
+  });
+});
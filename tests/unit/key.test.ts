@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { canonicalKey, detectKey, keyName, keyNames, parseKey, rankKeys } from "@shared/analysis/key";
+
+// Pitch-class weights from `[pitch class, weight]` pairs.
+function histogram(weights: [number, number][]): number[] {
+  const bins = new Array(12).fill(0);
+  for (const [pitchClass, weight] of weights) bins[pitchClass] = weight;
+  return bins;
+}
+
+describe("parseKey", () => {
+  it("reads major, minor and modal keys", () => {
+    assert.deepEqual(parseKey("A"), { root: 9, mode: "major" });
+    assert.deepEqual(parseKey("Bbm"), { root: 10, mode: "minor" });
+    assert.deepEqual(parseKey("D dorian"), { root: 2, mode: "dorian" });
+  });
+
+  it("reads the older sharp/flat spelling", () => {
+    assert.deepEqual(parseKey("A#m/Bbm"), { root: 10, mode: "minor" });
+  });
+});
+
+describe("keyName", () => {
+  it("spells the tonic with the key signature's accidentals", () => {
+    assert.equal(keyName(10, "major"), "Bb");
+    assert.equal(keyName(6, "minor"), "F#m");
+    assert.equal(keyName(3, "minor"), "D#m");
+  });
+
+  it("names modes after the tonic", () => {
+    assert.equal(keyName(2, "dorian"), "D dorian");
+    assert.equal(keyName(5, "lydian"), "F lydian");
+  });
+
+  it("round-trips through canonicalKey", () => {
+    assert.equal(canonicalKey("C#/Db"), "Db");
+    assert.equal(canonicalKey("a dorian"), "A dorian");
+    for (const key of keyNames()) assert.equal(canonicalKey(key), key);
+  });
+});
+
+describe("detectKey", () => {
+  it("finds a major key from its scale", () => {
+    assert.equal(detectKey(histogram([[0, 1], [2, 1], [4, 1], [5, 1], [7, 1], [9, 1], [11, 1]])), "C");
+  });
+
+  it("finds a minor key when its tonic and leading tone stand out", () => {
+    const aMinor = histogram([[9, 5], [11, 2], [0, 3], [2, 2], [4, 4], [5, 2], [8, 2]]);
+    assert.equal(detectKey(aMinor), "Am");
+  });
+
+  it("ranks every candidate, best first", () => {
+    const ranked = rankKeys(histogram([[7, 3], [11, 2], [2, 2]]));
+    assert.equal(ranked.length, 24);
+    assert.equal(ranked[0].key, "G");
+    ranked.slice(1).forEach((candidate, i) => assert.ok(candidate.score <= ranked[i].score));
+  });
+
+  it("considers the church modes when asked", () => {
+    assert.equal(rankKeys(new Array(12).fill(1).map((_, i) => i), { modes: true }).length, 84);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectMeter } from "@shared/analysis/meter";
+
+// `bars` bars of `pattern`, starting `phase` beats into the first bar.
+function accents(pattern: number[], bars: number, phase = 0): number[] {
+  return Array.from({ length: pattern.length * bars }, (_, i) => pattern[(i + phase) % pattern.length]);
+}
+
+describe("detectMeter", () => {
+  it("reports no meter for equal accents", () => {
+    assert.equal(detectMeter(new Array(32).fill(0.8)), null);
+  });
+
+  it("reports no meter for even accents with small jitter", () => {
+    // A straight pulse: every beat within a percent of the others.
+    const strengths = Array.from({ length: 48 }, (_, i) => 0.8 + 0.008 * Math.sin(i * 2.3));
+    assert.equal(detectMeter(strengths), null);
+  });
+
+  it("finds 4/4 from a strong first beat", () => {
+    assert.deepEqual(detectMeter(accents([1, 0.3, 0.5, 0.3], 8)), { timeSignature: "4/4", beatsPerBar: 4, phase: 0 });
+  });
+
+  it("finds 3/4 and the bar phase", () => {
+    assert.deepEqual(detectMeter(accents([1, 0.3, 0.3], 8, 2)), { timeSignature: "3/4", beatsPerBar: 3, phase: 1 });
+  });
+
+  it("prefers 4/4 when a strong-weak pattern fits several meters", () => {
+    assert.equal(detectMeter(accents([1, 0.3], 16))?.timeSignature, "4/4");
+  });
+
+  it("needs a few bars of beats", () => {
+    assert.equal(detectMeter([1, 0.3, 1, 0.3, 1]), null);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { exportMelodyToMidi } from "@/lib/midi-export";
+
+// Tick of the first note-on in the note track (the second MTrk chunk).
+function firstNoteTick(midi: Uint8Array): number {
+  const bytes = Array.from(midi);
+  const trackStart = bytes.findIndex((_, i) => i > 14 && String.fromCharCode(...bytes.slice(i, i + 4)) === "MTrk");
+  let i = trackStart + 8;
+  let delta = 0;
+  do delta = (delta << 7) | (bytes[i] & 0x7f);
+  while (bytes[i++] >= 0x80);
+  return delta;
+}
+
+describe("exportMelodyToMidi", () => {
+  const melody = [{ note: "c4", time: 1.5, duration: 0.5 }];
+
+  it("puts the first downbeat on a bar line", () => {
+    // Two beats before the downbeat at 2.5 s: the pickup starts on beat 3 of
+    // bar 2 and the downbeat is the start of bar 3.
+    const midi = exportMelodyToMidi(melody, [], [], { tempo: 120, firstDownbeat: 2.5, ppq: 480 });
+    assert.equal(firstNoteTick(midi), 6 * 480);
+  });
+
+  it("counts bars from the start without downbeats", () => {
+    const midi = exportMelodyToMidi(melody, [], [], { tempo: 120, ppq: 480 });
+    assert.equal(firstNoteTick(midi), 3 * 480);
+  });
+});
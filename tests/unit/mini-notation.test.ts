@@ -0,0 +1,106 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  barSegments,
+  formatBar,
+  formatSequence,
+  renderBars,
+  renderCycles,
+  resolveOverlaps,
+} from "@shared/analysis/mini-notation";
+
+describe("resolveOverlaps", () => {
+  it("trims an event so it ends where the next one starts", () => {
+    assert.deepEqual(
+      resolveOverlaps([
+        { start: 0, end: 4, token: "c4" },
+        { start: 2, end: 3, token: "e4" },
+      ]),
+      [
+        { start: 0, end: 2, token: "c4" },
+        { start: 2, end: 3, token: "e4" },
+      ]
+    );
+  });
+
+  it("keeps the longer of two events on the same step", () => {
+    assert.deepEqual(
+      resolveOverlaps([
+        { start: 1, end: 2, token: "e4" },
+        { start: 1, end: 3, token: "c4" },
+      ]),
+      [{ start: 1, end: 3, token: "c4" }]
+    );
+  });
+});
+
+describe("barSegments", () => {
+  it("fills the gaps with rests", () => {
+    assert.deepEqual(barSegments([{ start: 1, end: 3, token: "c4" }], 4), [
+      { token: "~", weight: 1 },
+      { token: "c4", weight: 2 },
+      { token: "~", weight: 1 },
+    ]);
+  });
+});
+
+describe("formatSequence", () => {
+  it("reduces weights by their common divisor", () => {
+    assert.equal(formatSequence([{ token: "c4", weight: 4 }, { token: "~", weight: 4 }]), "c4 ~");
+    assert.equal(
+      formatSequence([{ token: "a", weight: 2 }, { token: "b", weight: 4 }, { token: "c", weight: 2 }]),
+      "a b@2 c"
+    );
+  });
+
+  it("folds runs of single steps with !", () => {
+    assert.equal(formatSequence(["e4", "e4", "e4", "g4"].map(token => ({ token, weight: 1 }))), "e4!3 g4");
+  });
+
+  it("leaves weighted steps unfolded", () => {
+    assert.equal(
+      formatSequence([{ token: "a", weight: 2 }, { token: "a", weight: 2 }, { token: "b", weight: 1 }]),
+      "a@2 a@2 b"
+    );
+  });
+});
+
+describe("formatBar", () => {
+  it("writes a repeated cell with *", () => {
+    assert.equal(formatBar(new Array(4).fill({ token: "hh", weight: 1 })), "hh*4");
+    assert.equal(
+      formatBar([{ token: "bd", weight: 1 }, { token: "~", weight: 1 }, { token: "bd", weight: 1 }, { token: "~", weight: 1 }]),
+      "[bd ~]*2"
+    );
+  });
+});
+
+describe("renderBars", () => {
+  it("re-strikes a note held across the bar line", () => {
+    const bars = renderBars([{ start: 2, end: 6, token: "c4" }], 4, 2);
+    assert.deepEqual(bars, [
+      [{ token: "~", weight: 2 }, { token: "c4", weight: 2 }],
+      [{ token: "c4", weight: 2 }, { token: "~", weight: 2 }],
+    ]);
+  });
+});
+
+describe("renderCycles", () => {
+  it("cuts a looped phrase down to one pass", () => {
+    const bar = [{ token: "c4", weight: 1 }, { token: "e4", weight: 1 }];
+    assert.equal(renderCycles([bar, bar, bar, bar]), "c4 e4");
+  });
+
+  it("alternates the steps that differ between bars of one rhythm", () => {
+    const bars = ["a4", "b4"].map(last => [
+      { token: "c4", weight: 1 },
+      { token: "e4", weight: 1 },
+      { token: last, weight: 1 },
+    ]);
+    assert.equal(renderCycles(bars), "c4 e4 <a4 b4>");
+  });
+
+  it("writes an empty layer as a rest", () => {
+    assert.equal(renderCycles([]), "~");
+  });
+});
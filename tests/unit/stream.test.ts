@@ -0,0 +1,59 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { analyze } from "@shared/analysis";
+import { analyzeStream, chunkChannels } from "@shared/analysis/stream";
+import { defaultAnalysisParams, type AnalysisResult } from "@shared/schema";
+
+const SAMPLE_RATE = 16000;
+const SECONDS = 40;
+
+// Half-second sine notes every 0.75 s cycling through C, E, G and A. With
+// the first at 0.3 s, the A at 29.55 s rings across the 30 s window edge.
+function melody(): Float32Array {
+  const samples = new Float32Array(SAMPLE_RATE * SECONDS);
+  const frequencies = [261.63, 329.63, 392, 440];
+  for (let n = 0; n * 0.75 + 0.8 < SECONDS; n++) {
+    const start = Math.round((n * 0.75 + 0.3) * SAMPLE_RATE);
+    for (let i = 0; i < 0.5 * SAMPLE_RATE; i++) {
+      samples[start + i] = 0.5 * Math.sin((2 * Math.PI * frequencies[n % 4] * i) / SAMPLE_RATE);
+    }
+  }
+  return samples;
+}
+
+describe("analyzeStream", () => {
+  const samples = melody();
+  let whole: AnalysisResult;
+  let streamed: AnalysisResult;
+
+  before(async () => {
+    whole = await analyze(samples, SAMPLE_RATE, defaultAnalysisParams);
+    streamed = await analyzeStream(chunkChannels([samples], 4096), SAMPLE_RATE, defaultAnalysisParams, {
+      duration: SECONDS,
+    });
+  });
+
+  it("doesn't depend on how the recording is split into blocks", async () => {
+    const oddBlocks = await analyzeStream(chunkChannels([samples], 12345), SAMPLE_RATE, defaultAnalysisParams);
+    assert.deepEqual(oddBlocks, streamed);
+  });
+
+  it("transcribes the same notes as a single pass", () => {
+    assert.deepEqual(
+      streamed.melody.map(note => note.note),
+      whole.melody.map(note => note.note)
+    );
+    streamed.melody.forEach((note, i) => assert.ok(Math.abs(note.time - whole.melody[i].time) < 0.02, `note ${i}`));
+  });
+
+  it("keeps a note across the window edge once", () => {
+    const edge = streamed.melody.filter(note => note.time > 29.4 && note.time < 30.2);
+    assert.equal(edge.length, 1);
+    assert.equal(edge[0].note, "a4");
+  });
+
+  it("tracks the tempo over the whole recording", () => {
+    assert.equal(streamed.estimatedTempo, whole.estimatedTempo);
+    assert.equal(streamed.duration, SECONDS);
+  });
+});
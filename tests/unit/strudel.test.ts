@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateStrudelCode } from "@shared/analysis/strudel";
+
+describe("generateStrudelCode", () => {
+  it("spells melody and bass notes in the detected key", () => {
+    const melody = [{ note: "A#4", time: 0, duration: 0.5 }, { note: "D4", time: 0.5, duration: 0.5 }];
+    const bass = [{ note: "A#2", time: 0, duration: 1 }];
+    const code = generateStrudelCode(melody, [], 120, "4/4", [], { key: "Dm", bass });
+    assert.match(code.melody, /note\("bf4 d4 ~@2"\)/);
+    assert.match(code.bass, /note\("bf2/);
+
+    const sharps = generateStrudelCode(melody, [], 120, "4/4", [], { key: "B", bass });
+    assert.match(sharps.melody, /as4 d4/);
+  });
+
+  it("follows key changes when spelling notes", () => {
+    const melody = [{ note: "A#4", time: 0, duration: 2 }, { note: "A#4", time: 2, duration: 2 }];
+    const keySegments = [{ key: "Dm", time: 0, duration: 2 }, { key: "B", time: 2, duration: 2 }];
+    const code = generateStrudelCode(melody, [], 120, "4/4", [], { key: "Dm", keySegments });
+    assert.match(code.melody, /bf4.*as4/);
+  });
+});
+
+describe("bars", () => {
+  // Eight quarter notes from 1.5 s at 120 BPM, on a beat grid from 0 s.
+  const beats = Array.from({ length: 16 }, (_, i) => i * 0.5);
+  const melody = ["c4", "d4", "e4", "f4", "g4", "a4", "b4", "c5"]
+    .map((note, i) => ({ note, time: 1.5 + i * 0.5, duration: 0.5 }));
+
+  it("start at the first downbeat", () => {
+    const code = generateStrudelCode(melody, [], 120, "4/4", beats, { quantizeValue: "1/4", downbeats: [1.5, 3.5] });
+    assert.match(code.melody, /note\("<\[c4 d4 e4 f4\] \[g4 a4 b4 c5\]>"\)/);
+  });
+
+  it("write a pickup after a rest", () => {
+    const code = generateStrudelCode(melody, [], 120, "4/4", beats, { quantizeValue: "1/4", downbeats: [2.5, 4.5] });
+    assert.match(code.melody, /note\("<\[~@2 c4 d4\] \[e4 f4 g4 a4\] \[b4 c5 ~@2\]>"\)/);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { estimateGroove, swingBeat, unswingBeat } from "@shared/analysis/swing";
+
+// Beats at 120 BPM, half a second apart.
+const beats = Array.from({ length: 17 }, (_, i) => i * 0.5);
+
+// Onsets at `positions` (fractions of a beat) in each of the first 16 beats.
+function onsets(positions: number[]): number[] {
+  return beats.slice(0, 16).flatMap(beat => positions.map(position => beat + position * 0.5));
+}
+
+describe("swingBeat", () => {
+  it("leaves a straight grid alone", () => {
+    assert.equal(swingBeat(2.5, 1), 2.5);
+    assert.equal(unswingBeat(2.5, 1), 2.5);
+  });
+
+  it("moves the off-beat eighth to the swung position", () => {
+    assert.equal(swingBeat(0.5, 2), 2 / 3);
+    assert.equal(swingBeat(3.5, 3), 3.75);
+  });
+
+  it("keeps beats in place", () => {
+    assert.equal(swingBeat(4, 2), 4);
+    assert.equal(unswingBeat(4, 2), 4);
+  });
+
+  it("is undone by unswingBeat", () => {
+    for (const beat of [0.1, 0.25, 0.5, 0.8, 1.3, 5.95]) {
+      assert.ok(Math.abs(unswingBeat(swingBeat(beat, 2.5), 2.5) - beat) < 1e-9, `beat ${beat}`);
+    }
+  });
+});
+
+describe("estimateGroove", () => {
+  it("reads straight eighths as straight", () => {
+    assert.equal(estimateGroove(onsets([0, 0.5]), beats).swing, 1);
+  });
+
+  it("finds a 2:1 shuffle", () => {
+    assert.equal(estimateGroove(onsets([0, 2 / 3]), beats).swing, 2);
+  });
+
+  it("doesn't mistake straight sixteenths for a shuffle", () => {
+    assert.equal(estimateGroove(onsets([0, 0.25, 0.5, 0.75]), beats).swing, 1);
+  });
+
+  it("measures how late a sixteenth is played", () => {
+    const { microtiming } = estimateGroove(onsets([0, 0.25 + 0.02]), beats);
+    // 2% of a half-second beat: 10 ms behind the grid.
+    assert.equal(microtiming[1], 10);
+    assert.equal(microtiming[0], 0);
+  });
+
+  it("needs beats to measure against", () => {
+    assert.deepEqual(estimateGroove([0.1, 0.4], [0]), { swing: 1, microtiming: [0, 0, 0, 0] });
+  });
+});